@@ -15,29 +15,233 @@ export interface ApiResponse<T> {
     status: number;
     data?: T;
     error?: string;
+    fieldErrors?: Record<string, string>;
+    problem?: ProblemDetails;
+    attempts?: number;
 }
 
+/**
+ * RFC 7807 problem details, parsed from `application/problem+json` error bodies.
+ */
+export interface ProblemDetails {
+    type?: string;
+    title?: string;
+    status?: number;
+    detail?: string;
+    instance?: string;
+    [extension: string]: unknown;
+}
+
+/**
+ * How a successful response body is read. `auto` picks from the `Content-Type`:
+ * JSON types are parsed, `text/*` and XML are read as text, anything else as a `Blob`.
+ * Without a `Content-Type` the body is parsed as JSON, falling back to text. A body that
+ * can't be read in the chosen format fails the request with `ok: false`.
+ */
+export type ResponseType = "json" | "text" | "blob" | "arrayBuffer" | "stream" | "auto";
+
 export interface FetchEntry<T> {
     value?: T;
     loading: boolean;
     error?: any;
+    fetching?: boolean;
+    updatedAt?: number;
+};
+
+/**
+ * HTTP methods supported by `API.request`.
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS";
+
+/**
+ * Values accepted when building a query string.
+ */
+export type QueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Per-request options for `API.request`.
+ */
+export interface RequestOptions {
+    headers?: Record<string, string>;
+    query?: Record<string, QueryValue | QueryValue[]>;
+    credentials?: RequestCredentials;
+    timeout?: number;
+    signal?: AbortSignal;
+    retry?: RetryPolicy | false;
+    responseType?: ResponseType;
+}
+
+/**
+ * When and how often a failed request is retried.
+ *
+ * - `attempts` – maximum attempts including the first (default 1, no retries).
+ * - `baseDelay`/`maxDelay` – exponential backoff bounds in milliseconds. A `Retry-After`
+ *   longer than `maxDelay` stops retrying and returns the response.
+ * - `jitter` – randomise each delay between 0 and the backoff (default true).
+ * - `methods` – methods that may be retried, idempotent ones by default.
+ * - `statuses` – HTTP statuses that are retried. Network errors and timeouts are
+ *   always retried, aborts never are.
+ */
+export interface RetryPolicy {
+    attempts?: number;
+    baseDelay?: number;
+    maxDelay?: number;
+    jitter?: boolean;
+    methods?: HttpMethod[];
+    statuses?: number[];
+}
+
+/**
+ * Global configuration for an `API` instance.
+ */
+export interface APIConfig {
+    baseURL?: string;
+    headers?: Record<string, string>;
+    retry?: RetryPolicy;
+    timeout?: number;
+}
+
+/**
+ * A request as seen by request interceptors, which may change any field.
+ */
+export interface ApiRequest {
+    url: string;
+    init: RequestInit & { headers: Record<string, string> };
+}
+
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | void | Promise<ApiRequest | void>;
+export type ResponseInterceptor = (response: ApiResponse<any>, request: ApiRequest) =>
+    ApiResponse<any> | void | Promise<ApiResponse<any> | void>;
+
+/**
+ * Ordered list of interceptors, `use()` returns a function that removes the interceptor.
+ */
+export class InterceptorChain<F extends Function> {
+    private handlers_: F[] = [];
+
+    public use(handler: F): () => void {
+        this.handlers_.push(handler);
+        return () => { this.handlers_ = this.handlers_.filter(h => h !== handler); };
+    }
+
+    public get handlers(): readonly F[] {
+        return this.handlers_;
+    }
+}
+
+/**
+ * Progress of a single file within an upload.
+ */
+export interface FileProgress {
+    field: string;
+    name: string;
+    loaded: number;
+    total: number;
+    percent: number;
+}
+
+/**
+ * Progress of an upload or download. `total` is 0 when the size is unknown.
+ */
+export interface TransferProgress {
+    loaded: number;
+    total: number;
+    percent: number;
+    files: FileProgress[];
+}
+
+/**
+ * Options for `API.upload`, adding progress callbacks to the request options.
+ */
+export interface UploadOptions extends RequestOptions {
+    onUploadProgress?: (progress: TransferProgress) => void;
+    onDownloadProgress?: (progress: TransferProgress) => void;
+}
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+const BODYLESS: HttpMethod[] = ["GET", "HEAD", "OPTIONS"];
+
+const DEFAULT_RETRY: Required<RetryPolicy> = {
+    attempts: 1,
+    baseDelay: 300,
+    maxDelay: 10000,
+    jitter: true,
+    methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+    statuses: [408, 429, 500, 502, 503, 504]
 };
 
 /**
  * Class for HTTP requests.
  *
  * Provides a method `request` to abstract from JavaScript's `fetch` API.
+ *
+ * An instance carries a `baseURL` for relative URLs, default `headers` and interceptor
+ * chains run around every request:
+ * - `interceptors.request` – may modify or replace the outgoing request (auth, tracing).
+ * - `interceptors.response` – may modify or replace every response.
+ * - `interceptors.error` – runs for failed responses (non-2xx or network), e.g. global
+ *   401 handling. Returning a response replaces the failed one.
+ *
+ * Failed requests can be retried with exponential backoff, configured globally with
+ * `retry` or per request with `options.retry`. `Retry-After` headers are honoured (a wait
+ * longer than `maxDelay` is not retried) and the response reports how many `attempts`
+ * were made.
+ *
+ * ```ts
+ * const api = new API({ baseURL: "https://api.example.com/v1" });
+ * api.interceptors.request.use(req => { req.init.headers.Authorization = `Bearer ${token}`; });
+ * api.interceptors.error.use(res => { if (res.status === 401) location.assign("/login"); });
+ * Comp.api = api;
+ * ```
  */
 export class API {
 
+    public baseURL: string;
+    public headers: Record<string, string>;
+    public retry: RetryPolicy;
+    public timeout?: number;
+
+    public readonly interceptors = {
+        request: new InterceptorChain<RequestInterceptor>(),
+        response: new InterceptorChain<ResponseInterceptor>(),
+        error: new InterceptorChain<ResponseInterceptor>()
+    };
+
+    constructor(config: APIConfig = {}) {
+        this.baseURL = config.baseURL ?? "";
+        this.headers = { ...config.headers };
+        this.retry = { ...config.retry };
+        this.timeout = config.timeout;
+    }
+
     /**
-     * API perfoms a GET or POST HTTP Request.
+     * API perfoms an HTTP Request.
      * 
      * The method provides a nice abstraction to the fetch API to help developers
      * focus on the response rather than the request details.
+     * 
+     * Supports GET, POST, PUT, PATCH, DELETE, HEAD and OPTIONS. Plain objects are sent as
+     * JSON, `FormData`, `Blob`, `URLSearchParams` and strings are sent as-is. GET, HEAD and
+     * OPTIONS never send a body.
+     * 
+     * `options` adds headers, a query string, credentials mode, a timeout in milliseconds
+     * per attempt, an `AbortSignal`, a retry policy and a `responseType` (`auto` by
+     * default). Timed out or aborted requests resolve with status 0.
+     * 
+     * Empty bodies (204, 205, 304, HEAD) leave `data` undefined. Error bodies are parsed
+     * the same way for every request: `error` comes from `detail`/`title` for RFC 7807
+     * problem+json, else `message`, `error`, or the body text, and `problem` holds the
+     * parsed problem details.
      */
-    public async request<T>(url: string, method: string, data?: Object): Promise<ApiResponse<T>> {
-        if (method !== "POST" && method !== "GET") {
+    public async request<T>(
+        url: string,
+        method: string,
+        data?: Object,
+        options: RequestOptions = {}
+    ): Promise<ApiResponse<T>> {
+        const verb = method.toUpperCase() as HttpMethod;
+
+        if (!METHODS.includes(verb)) {
             return {
                 ok: false,
                 status: 0,
@@ -45,62 +249,483 @@ export class API {
             };
         }
 
-        const options: RequestInit = {
-            method: method,
-            headers: { "Content-Type": "application/json" }
-        };
+        const headers: Record<string, string> = {};
+        const init: ApiRequest["init"] = { method: verb, headers, credentials: options.credentials };
 
-        if (method === "POST") options.body = JSON.stringify(data);
+        if (data !== undefined && !BODYLESS.includes(verb)) {
+            if (this.isRawBody(data)) init.body = data;
+            else {
+                headers["Content-Type"] = "application/json";
+                init.body = JSON.stringify(data);
+            }
+        }
 
-        try {
-            const response = await fetch(url, options);
-            const result: ApiResponse<T> = {ok: response.ok, status: response.status};
+        Object.assign(headers, options.headers);
 
-            try {
-                const data = await response.json();
-                if (result.ok) result.data = data;
-                else result.error = data?.message || JSON.stringify(data);
-            } catch (jsonErr) {
-                if (!response.ok) result.error = `HTTP ${response.status} ${response.statusText}`;
-            }
-            return result;
-        } catch (networkErr: any) {
-            return {
-                ok: false,
-                status: 0,
-                error: networkErr.message || String(networkErr)
-            };
-        } 
+        return this.send<T>(this.buildURL(url, options.query), init, options);
     }
 
     /**
      * Sends a `FormData` payload via POST using `fetch()`, returns parsed JSON.
+     * 
+     * POST is not retried unless `options.retry.methods` includes it.
      */
-    public async submitForm<T>(url: string, formData: FormData): Promise<ApiResponse<T>> {
-        const init: RequestInit = {
+    public async submitForm<T>(url: string, formData: FormData, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+        const init: ApiRequest["init"] = {
             method: "POST",
-            body: formData
+            body: formData,
+            headers: { ...options.headers },
+            credentials: options.credentials
         };
 
-        try {
-            const response = await fetch(url, init);
-            const result: ApiResponse<T> = {ok: response.ok, status: response.status};
+        return this.send<T>(this.buildURL(url, options.query), init, options);
+    }
+
+    /**
+     * Sends a `FormData` payload via POST with progress reporting.
+     * 
+     * `fetch()` can't report upload progress, so this uses `XMLHttpRequest`. Progress
+     * callbacks receive bytes sent/received and, for uploads, an estimate for each file
+     * in the form. The request goes through the same interceptors and body parsing as
+     * `request()`, abort it with `options.signal`. Uploads are never retried.
+     */
+    public async upload<T>(url: string, formData: FormData, options: UploadOptions = {}): Promise<ApiResponse<T>> {
+        const request = await this.prepare(this.buildURL(url, options.query), {
+            method: "POST",
+            body: formData,
+            headers: { ...options.headers },
+            credentials: options.credentials
+        });
+
+        const files = Array.from(formData.entries())
+            .filter((entry): entry is [string, File] => entry[1] instanceof Blob)
+            .map(([field, file]) => ({ field, name: file.name ?? field, size: file.size }));
+
+        const result = await new Promise<ApiResponse<T>>(resolve => {
+            const xhr = new XMLHttpRequest();
+            const abort = () => xhr.abort();
+
+            // Every outcome detaches from the caller's signal, which may outlive the upload.
+            const settle = (response: ApiResponse<T>) => {
+                options.signal?.removeEventListener("abort", abort);
+                resolve(response);
+            };
+            const fail = (error: string) => settle({ ok: false, status: 0, error });
+
+            xhr.open("POST", request.url);
+            xhr.responseType = "blob";
+            xhr.withCredentials = request.init.credentials === "include";
+            xhr.timeout = options.timeout ?? this.timeout ?? 0;
+
+            for (const [name, value] of Object.entries(request.init.headers)) xhr.setRequestHeader(name, value);
 
+            xhr.upload.onprogress = event => options.onUploadProgress?.(
+                this.progress(event.loaded, event.lengthComputable ? event.total : 0, files)
+            );
+            xhr.onprogress = event => options.onDownloadProgress?.(
+                this.progress(event.loaded, event.lengthComputable ? event.total : 0, [])
+            );
+
+            xhr.onload = async () => settle(await this.fromXHR<T>(xhr, options));
+            xhr.onerror = () => fail("Network error");
+            xhr.ontimeout = () => fail(`Request timed out after ${xhr.timeout}ms`);
+            xhr.onabort = () => fail("Request aborted");
+
+            if (options.signal?.aborted) return fail("Request aborted");
+            options.signal?.addEventListener("abort", abort);
+
+            xhr.send(request.init.body as XMLHttpRequestBodyInit);
+        });
+
+        result.attempts = 1;
+        return this.finish(result, request);
+    }
+
+    /**
+     * Helper method builds a progress report, spreading the bytes sent across the
+     * files in form order to estimate per-file progress.
+     */
+    private progress(
+        loaded: number,
+        total: number,
+        files: Array<{ field: string, name: string, size: number }>
+    ): TransferProgress {
+        const ratio = total ? Math.min(1, loaded / total) : 0;
+        let remaining = ratio * files.reduce((sum, file) => sum + file.size, 0);
+
+        return {
+            loaded,
+            total,
+            percent: Math.round(ratio * 100),
+            files: files.map(file => {
+                const sent = Math.min(file.size, remaining);
+                remaining -= sent;
+
+                return {
+                    field: file.field,
+                    name: file.name,
+                    loaded: Math.round(sent),
+                    total: file.size,
+                    percent: file.size ? Math.round((sent / file.size) * 100) : 100
+                };
+            })
+        };
+    }
+
+    /**
+     * Helper method converts a completed `XMLHttpRequest` into an `ApiResponse`, reusing
+     * the `fetch()` body and error parsing.
+     */
+    private async fromXHR<T>(xhr: XMLHttpRequest, options: RequestOptions): Promise<ApiResponse<T>> {
+        const headers = new Headers();
+        for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+            const index = line.indexOf(":");
+            if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+        }
+
+        const nullBody = [101, 204, 205, 304].includes(xhr.status);
+        const response = new Response(nullBody ? null : xhr.response, {
+            status: xhr.status, statusText: xhr.statusText, headers
+        });
+
+        return this.toResult<T>(response, "POST", options);
+    }
+
+    /**
+     * Helper method builds an `ApiResponse` from a `Response`, reading the body on success
+     * and parsing the error body otherwise.
+     */
+    private async toResult<T>(
+        response: Response,
+        method: string | undefined,
+        options: RequestOptions
+    ): Promise<ApiResponse<T>> {
+        const result: ApiResponse<T> = {ok: response.ok, status: response.status};
+        const empty = this.isEmpty(response, method);
+
+        if (response.ok) {
             try {
-                const data = await response.json();
-                if (result.ok) result.data = data;
-                else result.error = data?.error || JSON.stringify(data);
-            } catch (jsonErr) {
-                if (!response.ok) result.error = `HTTP ${response.status} ${response.statusText}`;
+                if (!empty) result.data = await this.readBody(response, options.responseType ?? "auto");
+            } catch (parseErr: any) {
+                result.ok = false;
+                result.error = `Could not read response body: ${parseErr.message || String(parseErr)}`;
             }
-            return result;
+        } else Object.assign(result, await this.parseError(response, empty));
+
+        return result;
+    }
+
+    /**
+     * Helper method runs a request through the interceptor chains and `fetch()`.
+     * 
+     * Applies the base URL and default headers, handles timeout, abort and retries, and
+     * parses the body.
+     */
+    private async send<T>(
+        url: string,
+        init: ApiRequest["init"],
+        options: RequestOptions
+    ): Promise<ApiResponse<T>> {
+        const request = await this.prepare(url, init);
+
+        const policy = options.retry === false
+            ? { ...DEFAULT_RETRY, attempts: 1 }
+            : { ...DEFAULT_RETRY, ...this.retry, ...options.retry };
+        const method = (request.init.method ?? "GET").toUpperCase() as HttpMethod;
+        const timeout = options.timeout ?? this.timeout;
+
+        let result: ApiResponse<T>;
+        let attempts = 0;
+
+        while (true) {
+            attempts++;
+
+            const { response, retryAfter } = await this.attempt<T>(request, timeout, options);
+            result = response;
+
+            const retryable = result.status === 0
+                ? !options.signal?.aborted
+                : policy.statuses.includes(result.status);
+
+            if (result.ok || !retryable || attempts >= policy.attempts || !policy.methods.includes(method)) break;
+
+            // A server asking for a longer wait than we allow is not retried early.
+            if (retryAfter !== undefined && retryAfter > policy.maxDelay) break;
+
+            const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempts - 1));
+            const delay = retryAfter ?? (policy.jitter ? Math.random() * backoff : backoff);
+
+            if (!(await this.wait(delay, options.signal))) break;
+        }
+
+        result.attempts = attempts;
+
+        return this.finish(result, request);
+    }
+
+    /**
+     * Helper method applies the base URL and default headers, then runs the request
+     * interceptors.
+     */
+    private async prepare(url: string, init: ApiRequest["init"]): Promise<ApiRequest> {
+        let request: ApiRequest = {
+            url: this.resolveURL(url),
+            init: { ...init, headers: { ...this.headers, ...init.headers } }
+        };
+
+        for (const intercept of this.interceptors.request.handlers) {
+            request = (await intercept(request)) ?? request;
+        }
+
+        return request;
+    }
+
+    /**
+     * Helper method runs the error interceptors for failed responses, then the response
+     * interceptors.
+     */
+    private async finish<T>(result: ApiResponse<T>, request: ApiRequest): Promise<ApiResponse<T>> {
+        if (!result.ok) {
+            for (const intercept of this.interceptors.error.handlers) {
+                result = (await intercept(result, request)) ?? result;
+            }
+        }
+
+        for (const intercept of this.interceptors.response.handlers) {
+            result = (await intercept(result, request)) ?? result;
+        }
+
+        return result;
+    }
+
+    /**
+     * Helper method performs a single `fetch()`, aborting it after `timeout` ms or when
+     * `options.signal` aborts, and reads the body.
+     * 
+     * Also returns the `Retry-After` delay in milliseconds when the server sent one.
+     */
+    private async attempt<T>(
+        request: ApiRequest,
+        timeout: number | undefined,
+        options: RequestOptions
+    ): Promise<{ response: ApiResponse<T>, retryAfter?: number }> {
+        const signal = options.signal;
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        if (signal?.aborted) abort();
+        signal?.addEventListener("abort", abort);
+
+        let timedOut = false;
+        const timer = timeout ? setTimeout(() => { timedOut = true; abort(); }, timeout) : undefined;
+
+        try {
+            const response = await fetch(request.url, { ...request.init, signal: controller.signal });
+            const result = await this.toResult<T>(response, request.init.method, options);
+
+            return { response: result, retryAfter: this.parseRetryAfter(response.headers.get("Retry-After")) };
         } catch (networkErr: any) {
+            let error = networkErr.message || String(networkErr);
+            if (timedOut) error = `Request timed out after ${timeout}ms`;
+            else if (controller.signal.aborted) error = "Request aborted";
+
             return {
-                ok: false,
-                status: 0,
-                error: networkErr.message || String(networkErr)
+                response: {
+                    ok: false,
+                    status: 0,
+                    error
+                }
+            };
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", abort);
+        }
+    }
+
+    /**
+     * Helper method converts a `Retry-After` header (seconds or HTTP date) to milliseconds.
+     */
+    private parseRetryAfter(header: string | null): number | undefined {
+        if (!header) return undefined;
+
+        const seconds = Number(header);
+        if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+        const date = Date.parse(header);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Helper method waits `ms` milliseconds, resolving `false` early if `signal` aborts.
+     */
+    private wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+        return new Promise(resolve => {
+            if (signal?.aborted) return resolve(false);
+
+            const done = (completed: boolean) => {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
+                resolve(completed);
             };
-        } 
+            const onAbort = () => done(false);
+            const timer = setTimeout(() => done(true), ms);
+
+            signal?.addEventListener("abort", onAbort);
+        });
+    }
+
+    /**
+     * Helper method prefixes relative URLs with the base URL.
+     */
+    private resolveURL(url: string): string {
+        if (!this.baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url) || url.startsWith("//")) return url;
+
+        return `${this.baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+    }
+
+    /**
+     * Helper method appends a query string built from `query` to `url`.
+     * 
+     * `null` and `undefined` values are skipped, arrays add the key once per item.
+     */
+    private buildURL(url: string, query?: RequestOptions["query"]): string {
+        if (!query) return url;
+
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            for (const item of Array.isArray(value) ? value : [value]) {
+                if (item !== null && item !== undefined) params.append(key, String(item));
+            }
+        }
+
+        const search = params.toString();
+        if (!search) return url;
+
+        const [path, hash] = url.split("#");
+        return `${path}${path.includes("?") ? "&" : "?"}${search}${hash !== undefined ? `#${hash}` : ""}`;
+    }
+
+    /**
+     * Helper method checks whether a payload can be passed to `fetch` without JSON encoding.
+     */
+    private isRawBody(data: Object): data is BodyInit {
+        return typeof data === "string"
+            || data instanceof FormData
+            || data instanceof Blob
+            || data instanceof URLSearchParams
+            || data instanceof ArrayBuffer;
+    }
+
+    /**
+     * Helper method checks whether a response has no body to read.
+     */
+    private isEmpty(response: Response, method?: string): boolean {
+        return [204, 205, 304].includes(response.status)
+            || method?.toUpperCase() === "HEAD"
+            || response.headers.get("Content-Length") === "0";
+    }
+
+    /**
+     * Helper method reads a successful body in the requested format.
+     * 
+     * JSON bodies that turn out to be empty resolve to `undefined`. In `auto` mode a body
+     * without a `Content-Type` that isn't valid JSON is returned as text.
+     */
+    private async readBody(response: Response, type: ResponseType): Promise<any> {
+        const contentType = response.headers.get("Content-Type");
+        const undeclared = type === "auto" && !contentType;
+        if (type === "auto") type = this.detectType(contentType);
+
+        switch (type) {
+            case "stream":      return response.body;
+            case "blob":        return response.blob();
+            case "arrayBuffer": return response.arrayBuffer();
+            case "text":        return response.text();
+        }
+
+        const text = await response.text();
+        if (!text.trim()) return undefined;
+
+        try {
+            return JSON.parse(text);
+        } catch (err) {
+            if (undeclared) return text;
+            throw err;
+        }
+    }
+
+    /**
+     * Helper method picks a response type from a `Content-Type` header.
+     */
+    private detectType(contentType: string | null): ResponseType {
+        const mime = (contentType ?? "").split(";")[0].trim().toLowerCase();
+
+        if (!mime || mime === "application/json" || mime.endsWith("+json")) return "json";
+        if (mime.startsWith("text/") || mime.endsWith("/xml") || mime.endsWith("+xml")) return "text";
+
+        return "blob";
+    }
+
+    /**
+     * Helper method parses an error body into `error`, `fieldErrors` and `problem`.
+     * 
+     * Handles RFC 7807 problem+json, JSON objects with `message`/`error`, plain text and
+     * empty bodies, falling back to the status line.
+     */
+    private async parseError(response: Response, empty: boolean): Promise<Partial<ApiResponse<never>>> {
+        const fallback = `HTTP ${response.status} ${response.statusText}`.trim();
+        if (empty) return { error: fallback };
+
+        let text = "";
+        try {
+            text = (await response.text()).trim();
+        } catch {
+            return { error: fallback };
+        }
+
+        if (!text) return { error: fallback };
+
+        let body: any;
+        try {
+            body = JSON.parse(text);
+        } catch {
+            return { error: text };
+        }
+
+        if (!body || typeof body !== "object") return { error: String(body) };
+
+        const contentType = response.headers.get("Content-Type") ?? "";
+        const isProblem = contentType.includes("application/problem+json")
+            || (typeof body.title === "string" && ("type" in body || "detail" in body));
+
+        return {
+            error: (isProblem ? body.detail || body.title : undefined)
+                || body.message || body.error || body.detail || body.title || JSON.stringify(body),
+            fieldErrors: this.parseFieldErrors(body),
+            problem: isProblem ? body as ProblemDetails : undefined
+        };
+    }
+
+    /**
+     * Helper method reads per-field errors from an error body's `errors`, `fieldErrors`
+     * or RFC 7807 `invalid-params`, taking the first message when a field has several.
+     */
+    private parseFieldErrors(data: any): Record<string, string> | undefined {
+        const raw = data?.fieldErrors ?? data?.errors ?? data?.["invalid-params"];
+        if (!raw || typeof raw !== "object") return undefined;
+
+        const errors: Record<string, string> = {};
+
+        if (Array.isArray(raw)) {
+            for (const item of raw) {
+                const field = item?.name ?? item?.field;
+                if (field) errors[field] = String(item.reason ?? item.message ?? "Invalid value.");
+            }
+        } else {
+            for (const [field, message] of Object.entries(raw)) {
+                errors[field] = Array.isArray(message) ? String(message[0]) : String(message);
+            }
+        }
 
+        return Object.keys(errors).length ? errors : undefined;
     }
 }
\ No newline at end of file
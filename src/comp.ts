@@ -9,25 +9,67 @@
  * Licence:     Apache 2.0
  */
 
-import { API, ApiResponse, FetchEntry } from './api.js';
+import { API, ApiResponse, FetchEntry, HttpMethod, RequestOptions, TransferProgress, UploadOptions } from './api.js';
 import { CSSConfig, Design } from "./design.js";
 import { Effects } from "./effects.js";
+import { Reconciler } from "./reconciler.js";
+import { StyleSheets } from "./stylesheets.js";
+import { Store } from "./store.js";
+import { CompRegistry } from "./registry.js";
+import { TemplateResult } from "./html.js";
+import { QueryCache, QueryOptions } from "./query.js";
+import { RealtimeClient } from "./realtime.js";
+import { ValidationSchema, Validator } from "./validation.js";
+import {
+    ComputedDeclaration, ComputedState, PropState, ResourceDeclaration, ResourceState, checkProp, coerceProp, propKind
+} from "./props.js";
+
+export { computed, prop, resource } from "./props.js";
+export { API, InterceptorChain } from "./api.js";
+export type {
+    APIConfig, ApiRequest, ApiResponse, FileProgress, HttpMethod, ProblemDetails, RequestOptions, ResponseType,
+    RetryPolicy, TransferProgress, UploadOptions
+} from "./api.js";
+export { createStore, Store } from "./store.js";
+export { QueryCache } from "./query.js";
+export type { QueryOptions } from "./query.js";
+export { RealtimeClient } from "./realtime.js";
+export type { RealtimeOptions, RealtimeStatus, ReconnectPolicy } from "./realtime.js";
+export { CompRegistry } from "./registry.js";
+export { html, unsafeHTML, TemplateResult } from "./html.js";
+export { Validator } from "./validation.js";
+export type { FieldRules, ValidationSchema } from "./validation.js";
+export type { PropDeclaration, PropType, ResourceOptions } from "./props.js";
 
-type PropState<T = any> = {
-    default: T;
-    loading?: T;
-    error?: T;
-    current: T;
-};
 
 type Props = Record<string, PropState>;
 
+/**
+ * Detail of the `comp-pending` event a Comp dispatches when it starts waiting on async
+ * data. The nearest `Boundary` claims it by setting `settle`.
+ */
+type PendingDetail = { settle?: () => void };
+
+/**
+ * Render hook an error was thrown from.
+ */
+export type RenderPhase = "beforeRender" | "createHTML" | "createCSS" | "afterRender";
+
+/**
+ * Detail of the `comp-error` event a Comp dispatches when rendering fails. The nearest
+ * `Boundary` sets `handled`.
+ */
+export type RenderErrorDetail = { error: unknown, phase: RenderPhase, handled: boolean };
+
+const PENDING_EVENT = "comp-pending";
+const ERROR_EVENT = "comp-error";
+
 /**
  * # Comp
  * 
  * Abstract base class for creating components that encapsulates:
  * - Shadow DOM setup  
- * - Template rendering (HTML + CSS injection)  
+ * - Template rendering (HTML + CSS injection, keyed DOM diffing)  
  * - Data fetching (`request()`, `submitForm()`, `fetchOnce()`)  
  * - Event pub/sub (`publish()`, `subscribe()`)  
  * - CSS generation from native JavaScript objects with media queries & keyframes
@@ -39,7 +81,7 @@ type Props = Record<string, PropState>;
  * 1. `beforeRender()` runs before any DOM or CSS is injected.  
  * 2. An open shadow root is attached.  
  * 3. `createHTML()` and `createCSS()` generate the markup and styles.  
- * 4. HTML/CSS are injected via `render()`.  
+ * 4. HTML/CSS are patched into the shadow root via `render()`.  
  * 5. `afterRender()` runs to wire up event listeners or start effects.  
  * 
  * ## CSS Generation
@@ -83,6 +125,151 @@ type Props = Record<string, PropState>;
  * - `Hz`      -> `Hz`  
  * - `KHz`     -> `kHz`  
  * 
+ * ## Rendering
+ * 
+ * Return markup from `createHTML()` with the `html` tagged template to escape interpolated
+ * values automatically, `unsafeHTML()` opts trusted markup out.  
+ * Styles are compiled once per component class into constructable stylesheets and
+ * shared through `shadowRoot.adoptedStyleSheets` (with a `<style>` fallback).  
+ * Re-renders diff the new markup against the live shadow DOM and only patch what
+ * changed, so focus, form values and listeners from `afterRender()` are kept.  
+ * Give repeated children a `key` attribute so they are matched by identity:
+ * 
+ * ```ts
+ * createHTML() {
+ *   return `<ul>${this.items.map(i => `<li key="${i.id}">${i.name}</li>`).join("")}</ul>`;
+ * }
+ * ```
+ * 
+ * Prop changes are batched: setting several props in one handler queues a single
+ * re-render that runs on the next microtask. Await `updateComplete` to wait for it.
+ * 
+ * ## Attributes
+ * 
+ * Props declared with `{ default }` can be set from HTML attributes. The camelCase key
+ * maps to a kebab-case attribute (`maxItems` → `max-items`) and the value is coerced to
+ * the type of the default. Add `reflect: true` to write prop changes back to the attribute,
+ * or `attribute: "name"` to use a different attribute name. Attribute changes are picked
+ * up by a per-instance `MutationObserver`, so they reach the prop in a microtask.
+ * 
+ * ```ts
+ * maxItems = { default: 10 };
+ * open     = { default: false, reflect: true };
+ * ```
+ * 
+ * ## Typed Props
+ * 
+ * Use `prop()` to declare a prop with a `type` (`String`, `Number`, `Boolean`, `Object`,
+ * `Array`), `required` flag or `validate(value)` function. The field is typed as its value
+ * so `this.count` is a `number`. Assignments are coerced to the declared type where
+ * unambiguous and rejected with a warning when invalid (or throw with `Comp.strictProps`).
+ * 
+ * ```ts
+ * count = prop({ default: 0, type: Number, validate: n => n >= 0 || "must be positive" });
+ * ```
+ * 
+ * ## Computed Props & Watchers
+ * 
+ * `computed(fn)` declares a derived prop that is cached and only recomputed when a prop
+ * or store key it reads changes. `watch(key, (next, prev) => …)` runs a callback on
+ * change without re-rendering.
+ * 
+ * ```ts
+ * total = computed(() => this.price * this.qty);
+ * ```
+ * 
+ * ## Resources
+ * 
+ * `resource(loader)` declares a prop loaded from an `ApiResponse`. It fills the prop's
+ * loading and error state (read with `loadingOf(key)` and `errorOf(key)`), reloads when
+ * the props its loader reads change, and can be refreshed with `reload(key)`.
+ * 
+ * ```ts
+ * user = resource(() => this.request<User>(`/users/${this.userId}`, "GET"));
+ * createHTML() { return this.loadingOf("user") ? `<p>Loading…</p>` : `<p>${this.user?.name}</p>`; }
+ * ```
+ * 
+ * ## Shared Stores
+ * 
+ * State created with `createStore(initial)` can be shared by any Comp. Keys read through
+ * `store.get()` or `store.select()` while rendering are tracked and the Comp re-renders
+ * when they change, bindings are released on disconnect.
+ * 
+ * ```ts
+ * const cart = createStore({ items: [] as Item[] });
+ * createHTML() { return `<span>${cart.select(s => s.items.length)}</span>`; }
+ * ```
+ * 
+ * ## Async Fallbacks
+ * 
+ * Implement `createLoadingHTML()` and `createErrorHTML(error)` to render fallbacks while
+ * `fetchOnce()`/`fetchQuery()` entries or resource props are pending or have failed,
+ * so `createHTML()` only handles loaded data. Wrap a subtree in a `Boundary` to show one
+ * fallback until every Comp inside it has loaded.
+ * 
+ * ```ts
+ * createLoadingHTML() { return `<div class="spinner"></div>`; }
+ * createErrorHTML(error) { return html`<p>Couldn't load: ${error}</p>`; }
+ * ```
+ * 
+ * ## Error Handling
+ * 
+ * Errors thrown by the render hooks are caught per component and leave the previous
+ * render in place. Implement `onError(error, phase)` to handle them, unhandled errors
+ * bubble to the nearest `Boundary`, which shows its `error` slot. Set
+ * `Comp.errorHandler` to report every render error.
+ * 
+ * ```ts
+ * Comp.errorHandler = (error, comp, phase) => tracker.capture(error, { tag: comp.tagName, phase });
+ * ```
+ * 
+ * ## Query Cache
+ * 
+ * `fetchQuery(key, loader, options?)` reads async data from the shared `Comp.queries` cache.
+ * Comps using the same key share one request and all re-render when it settles. Data is
+ * fresh for `ttl` ms, then served stale while it revalidates on mount, window focus,
+ * reconnect or `Comp.queries.invalidate(key)`.
+ * 
+ * ```ts
+ * createHTML() {
+ *   const { value, loading } = this.fetchQuery("todos", () => loadTodos(), { ttl: 30_000 });
+ *   return loading ? `<p>Loading…</p>` : html`<ul>${value.map(renderTodo)}</ul>`;
+ * }
+ * ```
+ * 
+ * ## Scoped Registries
+ * 
+ * Set `static registry = new CompRegistry().define("ui-button", ButtonV2)` on a host Comp
+ * to resolve child tags locally, so two versions of a component can coexist on a page.
+ * 
+ * ## Event Binding
+ * 
+ * Bind DOM events in markup instead of wiring them in `afterRender()`. Inside an `html`
+ * template use `@click=${this.onSave}`, in plain strings use `on-click="onSave"` to call
+ * a method by name. Handlers are called with the component as `this` and receive the
+ * event and element, they survive re-renders and are removed on disconnect.
+ * 
+ * ```ts
+ * createHTML() { return html`<button @click=${this.onSave}>Save</button>`; }
+ * onSave(e: Event) { this.saved = true; }
+ * ```
+ * 
+ * ## Forms
+ * 
+ * Add `bind="prop"` to an `<input>`, `<select>` or `<textarea>` to keep its value in sync
+ * with a prop in both directions. Set `static formAssociated = true` (and optionally
+ * `static formProp`) to make the Comp itself a form control that submits, resets and
+ * validates with its native `<form>`, see `setFormValue()` and `setValidity()`.
+ * 
+ * ```ts
+ * class RatingInput extends Comp {
+ *   static formAssociated = true;
+ *   static formProp = "value";
+ *   value = prop({ default: 0 });
+ *   createHTML() { return `<input type="range" min="0" max="5" bind="value">`; }
+ * }
+ * ```
+ * 
  * ## Event Pub/Sub
  * 
  * - **publish(name, detail?)**  
@@ -92,34 +279,46 @@ type Props = Record<string, PropState>;
  *   Listen for an event, deduplicate by name, and auto-unsubscribe on disconnect.  
  *   Returns an unsubscribe function.
  * 
+ * - **subscribeChannel<T>(client, channel, listener)**  
+ *   Listen to a `RealtimeClient` channel (WebSocket or SSE) until disconnect.  
+ * 
  * ## Data Fetching
  * 
- * - **request<Api>(url, method, data?)**  
- *   JSON GET/POST helper returning typed data.  
+ * - **request<Api>(url, method, data?, options?)**  
+ *   JSON helper for every HTTP method, with headers, query, timeout and abort options.  
  * 
  * - **submitForm<Api>(url, form \| FormData \| Record)**  
  *   Multipart form POST returning parsed JSON.  
  * 
+ * - **upload<Api>(url, form \| FormData \| Record, options?)**  
+ *   Multipart POST reporting progress on `progressOf(prop)`, cancellable with a signal.  
+ * 
+ * - **fetchQuery<Value>(key, fetcher, options?)**  
+ *   Cached fetch shared between Comps, with TTL, revalidation and invalidation.
+ * 
  * - **fetchOnce<Key,Value>(key, fetcher)**  
- *   Memoised fetch to avoid duplicate requests in a render cycle.
+ *   Memoised fetch to avoid duplicate requests in a render cycle. Prefer `fetchQuery()`.
  * 
  * ## Properties
  * 
  * - **design** (`Design`)   — style builder & default host rules  
- * - **api** (`API`)         — HTTP & submission helpers  
+ * - **api** (`API`)         — HTTP & submission helpers, shared via `Comp.api` or `provideAPI()`  
  * - **effect** (`Effects`)  — animation & side-effect utilities  
  * 
  * ## Methods
  * 
  * - `render()`  
  * - `update(html?, css?)`  
+ * - `requestUpdate()` / `updateComplete`  
  * - `css(config \| config[])`  
  * - `beforeRender()`  
  * - `createHTML()`  
+ * - `createLoadingHTML()` / `createErrorHTML()`  
  * - `createCSS()`  
  * - `afterRender()`  
- * - `publish()` / `subscribe()`  
- * - `request()` / `submitForm()` / `fetchOnce()`  
+ * - `watch()`  
+ * - `publish()` / `subscribe()` / `subscribeChannel()`  
+ * - `request()` / `submitForm()` / `upload()` / `fetchQuery()` / `fetchOnce()`  
  * 
  * ## Example
  * 
@@ -167,23 +366,95 @@ type Props = Record<string, PropState>;
  * ```
  */
 export abstract class Comp extends HTMLElement {
-    private api = new API();
+    private providedAPI_?: API;
     public effect = new Effects();
     private design = new Design();
+    private reconciler = new Reconciler();
+    private styles = new StyleSheets();
+
+    private static registry_ = new Map<string, typeof Comp>();
+    private static tags_ = new WeakMap<Function, string>();
+
+    /**
+     * Prefix used when deriving tag names from class names, e.g. `"acme"` gives
+     * `<acme-user-card>`. Set it before defining any Comps.
+     */
+    public static prefix = "comp";
+
+    /**
+     * Shared `API` instance used by every Comp that has no API provided by an ancestor.
+     * Replace it to configure a base URL, default headers and interceptors globally.
+     */
+    public static api = new API();
+
+    /**
+     * Shared query cache used by `fetchQuery()`. Invalidate keys through it after mutations.
+     */
+    public static queries = new QueryCache();
+
+    /**
+     * Global handler called with every render error, before `onError()` and boundaries,
+     * e.g. to report it to an error tracker. Unhandled errors aren't logged when set.
+     */
+    public static errorHandler?: (error: unknown, comp: Comp, phase: RenderPhase) => void;
+
+    /**
+     * Optional registry scoping the custom elements this Comp renders. Tags defined in it
+     * are resolved locally, anything else falls back to the global registry.
+     */
+    public static registry?: CompRegistry;
+
+    /**
+     * Set to `true` to make the Comp a form-associated custom element, so it takes part
+     * in native `<form>` submission, reset and validation.
+     */
+    public static formAssociated = false;
+
+    /**
+     * Prop whose value is submitted with the owning form, for form-associated Comps.
+     */
+    public static formProp?: string;
 
-    private static registry_ = new Set<string>();
+    private internals_?: ElementInternals;
     protected asyncStore: Record<string, FetchEntry<any>> = {};
+    private queried_ = new Set<string>();
+    private abort_?: AbortController;
+    private pending_ = false;
+    private settle_?: () => void;
     private unsubscribers_: Array<() => void> = [];
     private listeners = new Map<String, EventListener>();
 
-    private static wiredClasses = new WeakSet<Function>();
+
+    /**
+     * When `true`, invalid prop assignments throw a `TypeError` instead of logging a
+     * warning. Enable it in development and tests.
+     */
+    public static strictProps = false;
+    private static schema_ = new WeakMap<Function, Map<string, string | null>>();
+    private static tracker_?: { owner: Comp, deps: Set<string> };
+    private static storeIds_ = new WeakMap<Store<any>, number>();
+    private static nextStoreId_ = 0;
     protected properties: Record<string, PropState> = {};
+    protected formErrors: Record<string, string> = {};
+    private computeds_: Record<string, ComputedState> = {};
+    private resources_: Record<string, ResourceState> = {};
+    private watchers_ = new Map<string, Set<(next: any, prev: any) => void>>();
+    private storeBindings_ = new Map<Store<any>, Map<PropertyKey, () => void>>();
+    private handlers_: Function[] = [];
+    private delegated_ = new Set<string>();
+    private bindingsListening_ = false;
 
     private mounted = false;
+    private updatePending_ = false;
+    private updateComplete_: Promise<boolean> = Promise.resolve(true);
+    private adoptedCSS_?: string;
+    private attributeSnapshot_?: Map<string, string | null>;
 
     constructor() {
         super();
         this.attachShadow({ mode: "open" });
+
+        if ((this.constructor as typeof Comp).formAssociated) this.internals_ = this.attachInternals();
     }
 
     /**
@@ -195,43 +466,146 @@ export abstract class Comp extends HTMLElement {
     connectedCallback() {
         if (this.mounted) return;
         this.mounted = true;
+        if (this.abort_?.signal.aborted) this.abort_ = undefined;
 
-        this.createProps();
+        const created = this.createProps();
         this.propAccessors();
+        this.observeAttributes();
+
+        // Check required/validate once attribute values have been applied.
+        for (const key of created) {
+            const invalid = checkProp(key, this.properties[key], this.properties[key].current);
+            if (invalid) this.invalidProp(invalid);
+        }
+
+        // Evaluate watched computeds so their dependencies are tracked from the start.
+        for (const key of this.watchers_.keys()) if (this.computeds_[key]) this.readComputed(key);
+
+        // Load resources that haven't settled yet, including loads aborted by a disconnect.
+        for (const [key, state] of Object.entries(this.resources_)) if (!state.settled) this.loadResource(key);
+
+        const formProp = (this.constructor as typeof Comp).formProp;
+        if (formProp) this.syncFormValue((this as any)[formProp]);
+
         this.render();
     }
 
     /**
-     * Method internally builds an HTML Element based off the classname prefixed with 'comp-'.
+     * ## attributeChangedCallback
+     * 
+     * Writes an attribute change through to its prop.
+     * 
+     * ### Behaviour
+     * - Props are declared as instance fields, so they aren't known when the class is
+     *   defined and there is no static `observedAttributes` list. Instead each instance
+     *   observes its own prop attributes with a `MutationObserver` and calls this, so
+     *   changes are applied asynchronously (in a microtask), not synchronously.
+     * - Looks up the prop whose attribute (camelCase key → kebab-case) matches `name`.
+     * - Coerces the string to the type of the prop's default (number, boolean, JSON).
+     * - Ignores changes that already match the current value, such as reflected writes.
+     * 
+     * ### Parameters
+     * - `name` (`string`): the attribute that changed.
+     * - `oldValue` (`string | null`): the previous value.
+     * - `newValue` (`string | null`): the new value, `null` if removed.
+     * 
+     * ### Example
+     * ```html
+     * <!-- sets `maxItems` to the number 5 and `open` to true -->
+     * <comp-todo-list max-items="5" open></comp-todo-list>
+     * ```
+     */
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+        if (oldValue === newValue) return;
+
+        const key = Object.keys(this.properties).find(k => this.properties[k].attribute === name);
+        if (!key || this.resources_[key]) return;
+
+        const prop = this.properties[key];
+        if (newValue === this.toAttribute(prop.current)) return;
+
+        (this as any)[key] = this.fromAttribute(prop, newValue);
+    }
+
+    /**
+     * Method internally registers a Comp class as a custom element under `tag`.
+     * 
+     * Re-defining the same class under the same tag is a no-op, any other clash throws.
+     */
+    private static register(ctor: typeof Comp, tag: string) {
+        if (!/^[a-z][a-z0-9._]*-[a-z0-9._-]*$/.test(tag)) {
+            throw new Error(`Invalid tag name "${tag}" for ${ctor.name}, it must be lowercase and contain a hyphen.`);
+        }
+
+        const existing = Comp.registry_.get(tag);
+        if (existing === ctor) return;
+        if (existing) throw new Error(`Tag <${tag}> is already defined by ${existing.name}, can't define ${ctor.name}.`);
+
+        const current = Comp.tags_.get(ctor);
+        if (current) throw new Error(`${ctor.name} is already defined as <${current}>, can't define <${tag}>.`);
+
+        if (customElements.get(tag)) throw new Error(`Tag <${tag}> is already defined outside of Jay.`);
+
+        customElements.define(tag, ctor as unknown as CustomElementConstructor);
+        Comp.registry_.set(tag, ctor);
+        Comp.tags_.set(ctor, tag);
+    }
+
+    /**
+     * Helper method builds a tag from the class name and `Comp.prefix`.
      */
-    private static register(ctor: typeof Comp) {
+    private static deriveTag(ctor: Function): string {
         const raw = ctor.name;
-        if (!raw) throw new Error(`Can't auto-derive tag for ${ctor.name}`);
+        if (!raw) throw new Error(`Can't auto-derive tag for an anonymous class, pass a tag name to define().`);
 
-        const tag = "comp-" + raw
+        return `${Comp.prefix}-` + raw
             .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
             .toLowerCase();
+    }
 
-        if (!Comp.registry_.has(tag)) {
-            customElements.define(tag, ctor as unknown as CustomElementConstructor);
-            Comp.registry_.add(tag);
-        }
+    /**
+     * ## tagName
+     * 
+     * The tag this class is registered under, or the tag `define()` would derive for it.
+     * 
+     * ### Returns
+     * `string` – e.g. `"comp-user-login-page"`.
+     * 
+     * ### Example
+     * ```ts
+     * document.createElement(UserLoginPage.tagName);
+     * ```
+     */
+    public static get tagName(): string {
+        return Comp.tags_.get(this) ?? Comp.deriveTag(this);
     }
 
     /**
      * ## define
      *
-     * Registers a `Comp` subclass as a custom element under the “comp-…” namespace.
+     * Registers a `Comp` subclass as a custom element.
      *
      * ### Behaviour
-     * Converts the component's class name into a valid tag name and performs a one-time
-     * registration with the browser’s Custom Elements registry.
+     * - With no argument, converts the class name into a tag under the `Comp.prefix`
+     *   namespace (`"comp"` by default).
+     * - With a `tagName`, registers under that tag instead. Use this when class names
+     *   are minified or clash across packages.
+     * - Performs a one-time registration with the browser’s Custom Elements registry,
+     *   defining the same class under the same tag again is ignored.
+     *
+     * - With a `registry`, defines the class in that scoped `CompRegistry` instead of
+     *   the global registry.
+     *
+     * ### Parameters
+     * - `tagName?` (`string`): Explicit tag, must be lowercase and contain a hyphen.
+     * - `registry?` (`CompRegistry`): Scoped registry to define the class in.
      *
      * ### Errors
      * Throws an `Error` if:
-     * - The class name is empty or  
-     * - The derived tag name would be an empty string  
-     *   (e.g. your class is literally named `Comp` or doesn’t end with any characters).
+     * - The class name is empty and no `tagName` is given  
+     * - The tag name is not a valid custom element name  
+     * - Another class already claimed the tag, or this class is already defined under
+     *   a different tag.
      *
      * ### Example
      * ```ts
@@ -243,6 +617,10 @@ export abstract class Comp extends HTMLElement {
      *
      * // Register at load time
      * UserLoginPage.define();
+     * 
+     * // Or with an explicit tag / global prefix
+     * UserLoginPage.define("acme-login");
+     * Comp.prefix = "acme"; // <acme-user-login-page>
      * ```
      * ```html
      * 
@@ -250,63 +628,243 @@ export abstract class Comp extends HTMLElement {
      * <comp-user-login-page></comp-user-login-page>
      * ```
      */
-    public static define() {
-        this.register(this);
+    public static define(tagName?: string, registry?: CompRegistry) {
+        const tag = tagName ?? Comp.deriveTag(this);
+
+        if (registry) registry.define(tag, this as unknown as CustomElementConstructor);
+        else this.register(this, tag);
     }
 
     /**
-     * Scans the instance for properties that match the { default } pattern.
-     * Creates the internal `properties` map and removes those props from the instance.
+     * Scans the instance for properties that match the { default } pattern or were
+     * declared with `computed()` or `resource()`.
+     * Creates the internal `properties` and computed maps and removes those props from the instance.
+     * Returns the keys of the props it created, to be checked once attributes are applied.
      */
-    private createProps() {
+    private createProps(): string[] {
+        const resolve = (v: any) => (typeof v === "function" ? v() : v);
+        const created: string[] = [];
+
         for (const key of Object.keys(this)) {
             const val = (this as any)[key];
-            if (val && typeof val === "object" && "default" in val) {
-                const resolve = (v: any) => (typeof v === "function" ? v() : v);
+            if (val instanceof ResourceDeclaration) {
+                const initial = resolve(val.options.default);
+
+                this.properties[key] = {
+                    default: initial,
+                    current: initial,
+                    loading: false,
+                    attribute: this.design.camelToKebab(key),
+                    reflect: false,
+                };
+                this.resources_[key] = {
+                    loader: val.loader,
+                    deps: new Set(val.options.deps),
+                    fixed: !!val.options.deps,
+                    run: 0,
+                    settled: false,
+                    loaded: false,
+                    scheduled: false,
+                };
+                delete (this as any)[key];
+            } else if (val && typeof val === "object" && "default" in val) {
                 this.properties[key] = {
                     default: resolve(val.default),
                     loading: resolve(val.loading),
                     error: resolve(val.error),
                     current: resolve(val.default),
+                    attribute: val.attribute ?? this.design.camelToKebab(key),
+                    reflect: !!val.reflect,
+                    type: val.type,
+                    required: val.required,
+                    validate: val.validate,
                 };
                 delete (this as any)[key]; // remove the raw prop from the instance
+                created.push(key);
+            } else if (val instanceof ComputedDeclaration) {
+                this.computeds_[key] = { get: val.get, dirty: true, deps: new Set() };
+                delete (this as any)[key];
             }
         }
+
+        return created;
+    }
+
+    /**
+     * Resolves the prop schema (prop key → attribute name, `null` for computeds and
+     * resources) for a class, merging the schemas of every Comp ancestor so subclasses
+     * extend their parent's props.
+     */
+    private static schemaOf(ctor: Function): Map<string, string | null> {
+        const chain: Function[] = [];
+        for (let c = ctor; c && c !== Comp; c = Object.getPrototypeOf(c)) chain.unshift(c);
+
+        const schema = new Map<string, string | null>();
+        for (const c of chain) Comp.schema_.get(c)?.forEach((attr, key) => schema.set(key, attr));
+
+        return schema;
     }
 
     /**
-     * Creates dynamic getters and setters on the instance's prototype
-     * for all detected properties.
+     * Creates dynamic getters and setters on the instance's prototype for any detected
+     * properties not already in the class's resolved schema.
+     * 
+     * Each instance is checked, so props declared conditionally or added by a subclass
+     * are wired the first time they appear.
      */
     private propAccessors() {
         const proto = Object.getPrototypeOf(this);
         const ctor = proto.constructor;
 
-        if (Comp.wiredClasses.has(ctor)) return;
+        const schema = Comp.schemaOf(ctor);
+        const own = Comp.schema_.get(ctor) ?? new Map<string, string | null>();
+
+        for (const [key, prop] of Object.entries(this.properties)) {
+            if (schema.has(key)) continue;
 
-        for (const key of Object.keys(this.properties)) {
             this.defineProp(proto, key);
+            own.set(key, this.resources_[key] ? null : prop.attribute);
+        }
+
+        for (const key of Object.keys(this.computeds_)) {
+            if (schema.has(key)) continue;
+
+            this.defineComputed(proto, key);
+            own.set(key, null);
+        }
+
+        Comp.schema_.set(ctor, own);
+    }
+
+    /**
+     * Reads initial prop values from attributes and starts observing prop attributes.
+     * 
+     * Props declared with `reflect: true` and no matching attribute write their
+     * default value out to the attribute. On reconnect only attributes changed while
+     * disconnected are applied, so values set from JS aren't overwritten.
+     */
+    private observeAttributes() {
+        const props = Object.entries(this.properties).filter(([key]) => !this.resources_[key]);
+        const attributes = props.map(([, prop]) => prop.attribute);
+        if (attributes.length === 0) return;
+
+        const snapshot = this.attributeSnapshot_;
+        this.attributeSnapshot_ = undefined;
+
+        for (const [key, prop] of props) {
+            const value = this.getAttribute(prop.attribute);
+
+            if (snapshot?.has(prop.attribute)) {
+                const prev = snapshot.get(prop.attribute) as string | null;
+                if (prev !== value) this.attributeChangedCallback(prop.attribute, prev, value);
+            } else if (value !== null) {
+                prop.current = this.fromAttribute(prop, value);
+            } else if (prop.reflect) this.reflectProp(key);
+        }
+
+        const observer = new MutationObserver(records => {
+            for (const record of records) {
+                const name = record.attributeName!;
+                this.attributeChangedCallback(name, record.oldValue, this.getAttribute(name));
+            }
+        });
+
+        observer.observe(this, { attributes: true, attributeOldValue: true, attributeFilter: attributes });
+        this.unsubscribers_.push(() => {
+            observer.disconnect();
+            this.attributeSnapshot_ = new Map(attributes.map(name => [name, this.getAttribute(name)]));
+        });
+    }
+
+    /**
+     * Helper method writes a prop's current value to its attribute.
+     */
+    private reflectProp(key: string) {
+        const prop = this.properties[key];
+        const value = this.toAttribute(prop.current);
+
+        if (value === null) this.removeAttribute(prop.attribute);
+        else if (this.getAttribute(prop.attribute) !== value) this.setAttribute(prop.attribute, value);
+    }
+
+    /**
+     * Helper method converts a prop value to its attribute string, `null` removes it.
+     */
+    private toAttribute(value: any): string | null {
+        if (value === undefined || value === null || value === false) return null;
+        if (value === true) return "";
+        if (typeof value === "object") return JSON.stringify(value);
+
+        return String(value);
+    }
+
+    /**
+     * Helper method coerces an attribute string to the type of the prop's default.
+     */
+    private fromAttribute(prop: PropState, value: string | null): any {
+        const kind = propKind(prop);
+
+        if (kind === "boolean") return value !== null && value !== "false";
+        if (value === null) return prop.default;
+        if (kind === "number") return Number(value);
+
+        if (kind === "object" || kind === "array") {
+            try {
+                return JSON.parse(value);
+            } catch {
+                console.warn(`Attribute "${prop.attribute}" is not valid JSON, using raw string.`);
+                return value;
+            }
         }
 
-        Comp.wiredClasses.add(ctor);
+        return value;
+    }
+
+    /**
+     * Helper method reports an invalid prop, throwing when `Comp.strictProps` is set.
+     */
+    private invalidProp(message: string) {
+        const error = `${this.tagName.toLowerCase()}: ${message}`;
+        if (Comp.strictProps) throw new TypeError(error);
+
+        console.warn(error);
     }
 
     /**
-     * Defines a property and its `loading`/`error` accessors on the given prototype.
+     * Defines a property and its `loading`/`error`/`progress` accessors on the given prototype.
      */
     private defineProp(proto: any, key: string) {
 
         // Main getter/setter
         Object.defineProperty(proto, key, {
             get(this: Comp) {
+                Comp.track(this, key);
                 return this.properties[key]?.current;
             },
             set(this: Comp, value: any) {
                 const prop = this.properties[key];
-                if (!prop) return;
+
+                // Not a prop on this instance (e.g. a field initialiser or a conditional
+                // prop), so keep it as a plain own property for `createProps()` to scan.
+                if (!prop) {
+                    Object.defineProperty(this, key, {
+                        value, writable: true, enumerable: true, configurable: true
+                    });
+                    return;
+                }
+
+                value = coerceProp(prop, value);
                 if (prop.current === value) return;
+
+                const invalid = checkProp(key, prop, value);
+                if (invalid) return this.invalidProp(invalid);
+
+                const prev = prop.current;
                 prop.current = value;
-                this.update();
+                if (prop.reflect) this.reflectProp(key);
+
+                this.propChanged(key, value, prev);
+                this.requestUpdate();
             },
             enumerable: true,
             configurable: true,
@@ -323,7 +881,7 @@ export abstract class Comp extends HTMLElement {
                 if (prop.loading === value) return;
 
                 prop.loading = value;
-                this.update();
+                this.requestUpdate();
             },
             enumerable: true,
             configurable: true,
@@ -340,62 +898,539 @@ export abstract class Comp extends HTMLElement {
                 if (prop.error === value) return;
 
                 prop.error = value;
-                this.update();
+                this.requestUpdate();
             },
             enumerable: true,
             configurable: true,
         });
-    }
-
-    /**
-     * ## render
-     * 
-     * Injects the component’s HTML and CSS into its shadow root and re-attaches logic.
-     * 
-     * ### Behaviour
-     *  - If `beforeRender()` is implemented, invokes it immediately before DOM injection.
-     * - Calls `createHTML()` to get the latest HTML fragment.  
-     * - Calls `createCSS()` to get the latest CSS string.  
-     * - Sets `shadowRoot.innerHTML` to the combined template (via `createTemplate`).  
-     * - If `afterRender()` is implemented, invokes it immediately after DOM injection.
-     * - Throws an Error if the shadow root is unavailable.
-     * 
-     * ### Throws
-     * - `Error` if `this.shadowRoot` is `null` or undefined.
-     * 
-     * ### Returns
-     * - `void`
-     * 
-     * ### Example
-     * ```js
-     * // After subclass initialization, simply:
-     * this.render();
-     *
-     * // Or as part of a lifecycle:
-     * connectedCallback() {
-     *   // ensure all state is ready
-     *   this.render();
-     * }
-     * ```
-     */
-    public render(): void {
-        if (!this.shadowRoot) throw new Error("Shadow root is not available.");
-
-        if (typeof this.beforeRender === "function") this.beforeRender();
 
-        this.shadowRoot.innerHTML = this.createTemplate(
-            this.createHTML(), this.compileCSSObjects(this.createCSS())
-        );
+        // Transfer progress
+        Object.defineProperty(proto, `${key}_progress`, {
+            get(this: Comp) {
+                return this.properties[key]?.progress;
+            },
+            set(this: Comp, value: TransferProgress | undefined) {
+                const prop = this.properties[key];
+                if (!prop) return;
+                if (prop.progress === value) return;
 
-        if (typeof this.afterRender === "function") this.afterRender();
+                prop.progress = value;
+                this.requestUpdate();
+            },
+            enumerable: true,
+            configurable: true,
+        });
     }
 
     /**
-     * Helper method conpiles CSSConfig objects into strings.
+     * Defines a read-only accessor for a computed prop on the given prototype.
      */
-    private compileCSSObjects(css: CSSConfig | string | Array<CSSConfig | string>): string {
-        const rawArray = Array.isArray(css) ? this.flatten(css) : [css];
-
+    private defineComputed(proto: any, key: string) {
+        Object.defineProperty(proto, key, {
+            get(this: Comp) {
+                return this.computeds_[key] ? this.readComputed(key) : undefined;
+            },
+            set(this: Comp, value: any) {
+                if (this.computeds_[key]) return this.invalidProp(`Computed prop "${key}" is read-only.`);
+
+                // Field initialiser on a new instance, see `defineProp()`.
+                Object.defineProperty(this, key, {
+                    value, writable: true, enumerable: true, configurable: true
+                });
+            },
+            enumerable: true,
+            configurable: true,
+        });
+    }
+
+    /**
+     * Helper method records a prop read against the computed currently being evaluated.
+     */
+    private static track(owner: Comp, key: string) {
+        if (Comp.tracker_?.owner === owner) Comp.tracker_.deps.add(key);
+    }
+
+    /**
+     * Returns a computed prop's cached value, re-evaluating it and collecting its
+     * dependencies if one of them changed since the last read.
+     */
+    private readComputed(key: string): any {
+        const state = this.computeds_[key];
+        Comp.track(this, key);
+
+        if (!state.dirty) return state.value;
+
+        const parent = Comp.tracker_;
+        const tracker = { owner: this as Comp, deps: new Set<string>() };
+        Comp.tracker_ = tracker;
+
+        // Store keys are tracked as dependencies too, so store changes mark the computed dirty.
+        const collect = (store: Store<any>, storeKey: PropertyKey) => {
+            this.bindStore(store, storeKey);
+            tracker.deps.add(Comp.storeDep(store, storeKey));
+        };
+
+        try {
+            state.value = Store.track(collect, () => state.get());
+            state.dirty = false;
+        } finally {
+            state.deps = tracker.deps;
+            Comp.tracker_ = parent;
+        }
+
+        return state.value;
+    }
+
+    /**
+     * Marks computeds depending on `key` (directly or through other computeds) as dirty,
+     * collecting their keys into `dirty`.
+     */
+    private invalidate(key: string, dirty: string[]) {
+        for (const [name, state] of Object.entries(this.computeds_)) {
+            if (state.dirty || !state.deps.has(key)) continue;
+
+            state.dirty = true;
+            dirty.push(name);
+            this.invalidate(name, dirty);
+        }
+    }
+
+    /**
+     * Helper method invalidates dependent computeds and runs watchers after a prop change.
+     */
+    private propChanged(key: string, next: any, prev: any) {
+        const dirty: string[] = [];
+        this.invalidate(key, dirty);
+        this.notify(key, next, prev);
+
+        if (key === (this.constructor as typeof Comp).formProp) this.syncFormValue(next);
+        this.scheduleResources([key, ...dirty]);
+        this.notifyComputeds(dirty);
+    }
+
+    /**
+     * Helper method invalidates computeds reading a store key that changed, runs their
+     * watchers and re-renders.
+     */
+    private storeChanged(dep: string) {
+        const dirty: string[] = [];
+        this.invalidate(dep, dirty);
+
+        this.scheduleResources(dirty);
+        this.notifyComputeds(dirty);
+        this.requestUpdate();
+    }
+
+    /**
+     * Helper method re-evaluates watched computeds that were marked dirty and notifies
+     * their watchers if the value changed.
+     */
+    private notifyComputeds(dirty: string[]) {
+        for (const name of dirty) {
+            if (!this.watchers_.has(name)) continue;
+
+            const before = this.computeds_[name].value;
+            const after = this.readComputed(name);
+            if (after !== before) this.notify(name, after, before);
+        }
+    }
+
+    /**
+     * Helper method queues a reload of every resource depending on one of `keys`, so
+     * several changes in the same task only reload once.
+     */
+    private scheduleResources(keys: string[]) {
+        for (const [name, state] of Object.entries(this.resources_)) {
+            if (state.scheduled || !keys.some(key => state.deps.has(key))) continue;
+
+            state.scheduled = true;
+            queueMicrotask(() => {
+                state.scheduled = false;
+                if (this.mounted) this.loadResource(name);
+            });
+        }
+    }
+
+    /**
+     * Helper method runs a resource's loader, tracking the props it reads as
+     * dependencies, and writes the response to the prop's value or error.
+     */
+    private async loadResource(key: string): Promise<void> {
+        const state = this.resources_[key];
+        const run = ++state.run;
+
+        state.controller?.abort();
+        const controller = new AbortController();
+        state.controller = controller;
+
+        const disconnected = this.abortSignal;
+        const abort = () => controller.abort();
+        disconnected.addEventListener("abort", abort, { once: true });
+
+        (this as any)[`${key}_loading`] = true;
+
+        const parent = Comp.tracker_;
+        const tracker = { owner: this as Comp, deps: new Set<string>() };
+        Comp.tracker_ = tracker;
+
+        let pending: Promise<ApiResponse<any>>;
+        try {
+            pending = state.loader(controller.signal);
+        } catch (err) {
+            pending = Promise.reject(err);
+        } finally {
+            Comp.tracker_ = parent;
+            if (!state.fixed) state.deps = tracker.deps;
+        }
+
+        let response: ApiResponse<any>;
+        try {
+            response = await pending;
+        } catch (err: any) {
+            response = { ok: false, status: 0, error: err?.message || String(err) };
+        } finally {
+            disconnected.removeEventListener("abort", abort);
+        }
+
+        if (run !== state.run || controller.signal.aborted) return;
+        state.settled = true;
+
+        if (response.ok) {
+            state.loaded = true;
+            (this as any)[`${key}_error`] = undefined;
+            (this as any)[key] = response.data;
+        } else (this as any)[`${key}_error`] = response.error ?? `Request failed with status ${response.status}`;
+
+        (this as any)[`${key}_loading`] = false;
+    }
+
+    /**
+     * ## reload
+     * 
+     * Reloads a resource prop now, regardless of its dependencies.
+     * 
+     * ### Parameters
+     * - `key` (`string`): The resource prop name.
+     * 
+     * ### Returns
+     * `Promise<void>` – resolves once the prop, `_loading` and `_error` are updated.
+     * 
+     * ### Example
+     * ```ts
+     * user = resource(() => this.request<User>("/me", "GET"));
+     * onRefresh() { this.reload("user"); }
+     * ```
+     */
+    protected reload<K extends keyof this & string>(key: K): Promise<void> {
+        if (!this.resources_[key]) throw new Error(`"${key}" is not a resource prop.`);
+        return this.loadResource(key);
+    }
+
+    /**
+     * ## loadingOf
+     * 
+     * Reads whether a prop's resource load or upload is in progress.
+     * 
+     * ### Parameters
+     * - `key` (`string`): The prop name.
+     * 
+     * ### Returns
+     * `boolean` – the prop's loading state, also available untyped as `<prop>_loading`.
+     */
+    protected loadingOf<K extends keyof this & string>(key: K): boolean {
+        return !!this.properties[key]?.loading;
+    }
+
+    /**
+     * ## errorOf
+     * 
+     * Reads the error set on a prop by a failed resource load, upload or validation.
+     * 
+     * ### Parameters
+     * - `key` (`string`): The prop name.
+     * 
+     * ### Returns
+     * `string | undefined` – the prop's error, also available untyped as `<prop>_error`.
+     */
+    protected errorOf<K extends keyof this & string>(key: K): string | undefined {
+        return this.properties[key]?.error;
+    }
+
+    /**
+     * ## progressOf
+     * 
+     * Reads the transfer progress of an upload exposed on a prop.
+     * 
+     * ### Parameters
+     * - `key` (`string`): The prop name.
+     * 
+     * ### Returns
+     * `TransferProgress | undefined` – the latest progress, also available untyped as
+     * `<prop>_progress`.
+     */
+    protected progressOf<K extends keyof this & string>(key: K): TransferProgress | undefined {
+        return this.properties[key]?.progress;
+    }
+
+    /**
+     * Helper method calls every watcher registered for `key`.
+     */
+    private notify(key: string, next: any, prev: any) {
+        this.watchers_.get(key)?.forEach(callback => callback.call(this, next, prev));
+    }
+
+    /**
+     * ## watch
+     * 
+     * Registers a callback that runs whenever a prop or computed prop changes.
+     * 
+     * ### Behaviour
+     * - Runs synchronously with the new and previous value, before the batched re-render.
+     * - Does not trigger a re-render itself, so it suits side effects such as syncing
+     *   storage, analytics or starting animations.
+     * - Computed props are evaluated once on registration so their dependencies are known.
+     * - Register once, e.g. in the constructor, rather than in a render hook.
+     * 
+     * ### Parameters
+     * - `key` (`string`): The prop or computed prop name.
+     * - `callback` (`(next, prev) => void`): Called with the new and previous values.
+     * 
+     * ### Returns
+     * `() => void` – A function that removes the watcher.
+     * 
+     * ### Example
+     * ```ts
+     * constructor() {
+     *   super();
+     *   this.watch("query", (next, prev) => console.log(`${prev} -> ${next}`));
+     *   this.watch("total", total => this.publish("total-changed", total));
+     * }
+     * ```
+     */
+    protected watch<K extends keyof this & string>(
+        key: K,
+        callback: (next: this[K], prev: this[K]) => void
+    ): () => void {
+        const watchers = this.watchers_.get(key) ?? new Set();
+        watchers.add(callback);
+        this.watchers_.set(key, watchers);
+
+        if (this.computeds_[key]) this.readComputed(key);
+
+        return () => {
+            watchers.delete(callback);
+        };
+    }
+
+    /**
+     * ## render
+     * 
+     * Injects the component’s HTML and CSS into its shadow root and re-attaches logic.
+     * 
+     * ### Behaviour
+     *  - If `beforeRender()` is implemented, invokes it immediately before DOM injection.
+     * - Calls `createHTML()` to get the latest HTML fragment, or `createLoadingHTML()` /
+     *   `createErrorHTML()` while async data is pending or has failed.  
+     * - Calls `createCSS()` to get the latest CSS string.  
+     * - Patches the shadow root against the combined template (via `createTemplate`),
+     *   only touching nodes and attributes that changed.  
+     * - If `afterRender()` is implemented, invokes it immediately after DOM injection.
+     * - Errors thrown by these hooks are caught, see `onError()`. The shadow root keeps
+     *   its previous content when building the template fails.
+     * - Throws an Error if the shadow root is unavailable.
+     * 
+     * ### Throws
+     * - `Error` if `this.shadowRoot` is `null` or undefined.
+     * 
+     * ### Returns
+     * - `void`
+     * 
+     * ### Example
+     * ```js
+     * // After subclass initialization, simply:
+     * this.render();
+     *
+     * // Or as part of a lifecycle:
+     * connectedCallback() {
+     *   // ensure all state is ready
+     *   this.render();
+     * }
+     * ```
+     */
+    public render(): void {
+        if (!this.shadowRoot) throw new Error("Shadow root is not available.");
+
+        this.paint();
+    }
+
+    /**
+     * Helper method runs the render hooks and patches the result into the shadow root.
+     * 
+     * The template is built in full before the DOM is touched, so an error thrown by a
+     * hook leaves the previous render in place. Errors are passed to `renderError()`
+     * rather than thrown.
+     */
+    private paint(newHTML?: string | TemplateResult, newCSS?: Array<CSSConfig>): void {
+        let phase: RenderPhase = "beforeRender";
+
+        try {
+            if (typeof this.beforeRender === "function") this.beforeRender();
+
+            phase = "createHTML";
+            const template = this.trackStores(() => {
+                const markup = newHTML || this.resolveHTML();
+
+                phase = "createCSS";
+                const css = this.compileCSSObjects(newCSS || this.createCSS());
+
+                phase = "createHTML";
+                return this.createTemplate(markup, css);
+            });
+
+            this.reconciler.patch(this.shadowRoot!, template);
+            this.syncBindings();
+            this.reportPending();
+
+            phase = "afterRender";
+            if (typeof this.afterRender === "function") this.afterRender();
+        } catch (error) {
+            this.renderError(error, phase);
+        }
+    }
+
+    /**
+     * Helper method reports a render error to `Comp.errorHandler` and `onError()`, then
+     * lets the nearest `Boundary` handle it. Unhandled errors are logged.
+     */
+    private renderError(error: unknown, phase: RenderPhase) {
+        Comp.errorHandler?.(error, this, phase);
+
+        if (typeof this.onError === "function" && this.onError(error, phase) === true) return;
+
+        const detail: RenderErrorDetail = { error, phase, handled: false };
+        this.dispatchEvent(new CustomEvent(ERROR_EVENT, { detail, bubbles: true, composed: true }));
+
+        if (!detail.handled && !Comp.errorHandler) {
+            console.error(`${this.tagName.toLowerCase()}: error in ${phase}()`, error);
+        }
+    }
+
+    /**
+     * Helper method picks the markup to render: the loading or error fallback while
+     * async data is pending or has failed (when those hooks are implemented), otherwise
+     * `createHTML()`.
+     * 
+     * `createHTML()` may throw while data it reads is still pending, the loading
+     * fallback is rendered instead.
+     */
+    private resolveHTML(): string | TemplateResult {
+        const fallback = () => {
+            const { pending, error } = this.asyncStatus();
+
+            if (pending && typeof this.createLoadingHTML === "function") return this.createLoadingHTML();
+            if (error !== undefined && typeof this.createErrorHTML === "function") return this.createErrorHTML(error);
+            return undefined;
+        };
+
+        const before = fallback();
+        if (before !== undefined) return before;
+
+        let markup: string | TemplateResult;
+        try {
+            markup = this.createHTML();
+        } catch (err) {
+            const after = fallback();
+            if (after !== undefined) return after;
+            throw err;
+        }
+
+        // `createHTML()` may have started new `fetchOnce()`/`fetchQuery()` loads.
+        return fallback() ?? markup;
+    }
+
+    /**
+     * Helper method summarises the async state this Comp tracks: its `fetchOnce()`
+     * entries, the `fetchQuery()` entries it has read and its resource props.
+     * 
+     * Errors only count for entries without data, so a failed background refetch keeps
+     * showing the cached value.
+     */
+    private asyncStatus(): { pending: boolean, error?: unknown } {
+        const fetched = [
+            ...Object.values(this.asyncStore),
+            ...Array.from(this.queried_, key => Comp.queries.peek(key) ?? { loading: false, value: undefined })
+        ];
+        const entries: Array<{ loading?: unknown, error?: unknown, cached: boolean }> = [
+            ...fetched.map(entry => ({ ...entry, cached: entry.value !== undefined })),
+            ...Object.entries(this.resources_).map(([key, state]) => ({
+                loading: this.properties[key].loading,
+                error: this.properties[key].error,
+                cached: state.loaded
+            }))
+        ];
+
+        return {
+            pending: entries.some(entry => entry.loading),
+            error: entries.find(entry => !entry.cached && entry.error !== undefined && entry.error !== null)?.error
+        };
+    }
+
+    /**
+     * Helper method tells the nearest `Boundary` when this Comp starts or stops waiting
+     * on async data.
+     */
+    private reportPending() {
+        const pending = this.asyncStatus().pending;
+        if (pending === this.pending_) return;
+
+        this.pending_ = pending;
+
+        if (pending) {
+            const detail: PendingDetail = {};
+            this.dispatchEvent(new CustomEvent(PENDING_EVENT, { detail, bubbles: true, composed: true }));
+            this.settle_ = detail.settle;
+        } else {
+            this.settle_?.();
+            this.settle_ = undefined;
+        }
+    }
+
+    /**
+     * Helper method runs `fn` while binding this Comp to every store key it reads.
+     */
+    private trackStores<T>(fn: () => T): T {
+        return Store.track((store, key) => this.bindStore(store, key), fn);
+    }
+
+    /**
+     * Helper method re-renders this Comp, and invalidates computeds reading it, whenever
+     * `key` changes in `store`.
+     */
+    private bindStore(store: Store<any>, key: PropertyKey) {
+        const keys = this.storeBindings_.get(store) ?? new Map<PropertyKey, () => void>();
+        if (keys.has(key)) return;
+
+        const dep = Comp.storeDep(store, key);
+        keys.set(key, store.onKey(key, () => this.storeChanged(dep)));
+        this.storeBindings_.set(store, keys);
+    }
+
+    /**
+     * Helper method names a store key as a computed dependency, distinct from prop names.
+     */
+    private static storeDep(store: Store<any>, key: PropertyKey): string {
+        let id = Comp.storeIds_.get(store);
+        if (id === undefined) Comp.storeIds_.set(store, id = Comp.nextStoreId_++);
+
+        return `store:${id}:${String(key)}`;
+    }
+
+    /**
+     * Helper method conpiles CSSConfig objects into strings.
+     */
+    private compileCSSObjects(css: CSSConfig | string | Array<CSSConfig | string>): string {
+        const rawArray = Array.isArray(css) ? this.flatten(css) : [css];
+
         return rawArray.map(entry => {
             if (typeof entry === "string") return entry;
             else return this.design.create(entry);
@@ -423,12 +1458,16 @@ export abstract class Comp extends HTMLElement {
      * - If both `newHTML` and `newCSS` are supplied, uses those values directly.
      * - If either argument is omitted, calls the corresponding
      *   `createHTML()` or `createCSS()` override to regenerate the missing piece.
+     * - Diffs the result against the live shadow DOM, keyed children (`key="…"`) are
+     *   matched by key and only changed nodes and attributes are patched.
      * - Throws if the component’s shadow root is not attached.
-     * - After updating the DOM, invokes `hook()` so event listeners and other logic
-     *   are wired up again.
+     * - Does nothing once the component has been disconnected, so late async
+     *   callbacks can't render a detached element.
+     * - After updating the DOM, invokes `afterRender()`. Elements that survived the
+     *   patch keep their listeners, focus and form state.
      * 
      * ### Parameters
-     * - `newHTML?` (`string`): Optional HTML fragment to inject.  
+     * - `newHTML?` (`string | TemplateResult`): Optional HTML fragment to inject.  
      *   If omitted, runs `this.createHTML()`.
      * - `newCSS?` (`string`): Optional CSS string to inject.  
      *   If omitted, runs `this.createCSS()`.
@@ -446,45 +1485,213 @@ export abstract class Comp extends HTMLElement {
      *   this.message = text;
      *   this.update();         // calls createHTML/createCSS internally
      * }
+     * 
+     * // Case 3: batch with other prop changes instead of rendering now
+     * this.requestUpdate();
      * ```
      */
-    update(newHTML?: string, newCSS?: Array<CSSConfig>): void {
+    update(newHTML?: string | TemplateResult, newCSS?: Array<CSSConfig>): void {
         if (!this.shadowRoot) throw new Error("No shadow root");
+        if (this.abort_?.signal.aborted) return;
 
-        if (typeof this.beforeRender === "function") this.beforeRender();
+        this.updatePending_ = false;
+        this.paint(newHTML, newCSS);
+    }
 
-        const html = newHTML || this.createHTML();
-        const css = newCSS || this.createCSS();
+    /**
+     * ## requestUpdate
+     * 
+     * Schedules a re-render on the next microtask.
+     * 
+     * ### Behaviour
+     * - Multiple calls before the flush are batched into a single `update()`.
+     * - Prop setters (including `_loading` and `_error`) call this automatically.
+     * - Ignored if the component is disconnected by the time the queue flushes.
+     * - Calling `update()` directly in the meantime renders immediately and
+     *   cancels the queued render.
+     * 
+     * ### Returns
+     * `Promise<boolean>` – the same promise as `updateComplete`.
+     * 
+     * ### Example
+     * ```ts
+     * this.count = 1;
+     * this.label = "one";
+     * await this.requestUpdate(); // rendered once
+     * ```
+     */
+    public requestUpdate(): Promise<boolean> {
+        if (!this.updatePending_) {
+            this.updatePending_ = true;
+            this.updateComplete_ = Promise.resolve().then(() => this.flushUpdate());
+        }
 
-        this.shadowRoot.innerHTML = this.createTemplate(html, this.compileCSSObjects(css));
+        return this.updateComplete_;
+    }
 
-        if (typeof this.afterRender === "function") this.afterRender();
+    /**
+     * ## updateComplete
+     * 
+     * Promise that resolves once any queued re-render has been flushed to the DOM.
+     * 
+     * ### Returns
+     * `Promise<boolean>` – resolves `true` when the DOM is up to date, `false` if the
+     * queued render was skipped because the component was disconnected.
+     * 
+     * ### Example
+     * ```ts
+     * comp.count = 5;
+     * await comp.updateComplete;
+     * expect(comp.shadowRoot.textContent).toContain("5");
+     * ```
+     */
+    public get updateComplete(): Promise<boolean> {
+        return this.updateComplete_;
+    }
+
+    /**
+     * Helper method runs a queued update if one is still pending.
+     */
+    private flushUpdate(): boolean {
+        if (!this.updatePending_) return true;
+        this.updatePending_ = false;
+
+        if (!this.mounted) return false;
+
+        this.update();
+        return true;
+    }
+
+    /**
+     * ## abortSignal
+     * 
+     * Signal aborted when this Comp is disconnected.
+     * 
+     * ### Behaviour
+     * - `request()`, `submitForm()`, `upload()` and `fetchOnce()` loaders are tied to it,
+     *   so their requests are cancelled when the Comp leaves the DOM and resolve with
+     *   `status` 0.
+     * - A fresh signal is created when the Comp is connected again.
+     * - Pass it to any other async work the Comp starts.
+     * 
+     * ### Returns
+     * `AbortSignal` – the signal for the current connection.
+     * 
+     * ### Example
+     * ```ts
+     * const res = await fetch("/api/feed", { signal: this.abortSignal });
+     * ```
+     */
+    protected get abortSignal(): AbortSignal {
+        this.abort_ ??= new AbortController();
+        return this.abort_.signal;
+    }
+
+    /**
+     * Helper method runs `send` with a signal combining the request's own signal and
+     * `abortSignal`, removing its listeners from both once the request settles.
+     */
+    private async withSignal<O extends RequestOptions, T>(
+        options: O | undefined,
+        send: (options: O) => Promise<T>
+    ): Promise<T> {
+        const own = this.abortSignal;
+        const signal = options?.signal;
+        if (!signal) return send({ ...options, signal: own } as O);
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+
+        if (signal.aborted || own.aborted) abort();
+        signal.addEventListener("abort", abort, { once: true });
+        own.addEventListener("abort", abort, { once: true });
+
+        try {
+            return await send({ ...options, signal: controller.signal });
+        } finally {
+            signal.removeEventListener("abort", abort);
+            own.removeEventListener("abort", abort);
+        }
+    }
+
+    /**
+     * ## api
+     * 
+     * The `API` instance this Comp sends requests through.
+     * 
+     * ### Behaviour
+     * - Uses an API provided on this Comp with `provideAPI()`, else the nearest ancestor
+     *   Comp (across shadow roots) that provides one, else the global `Comp.api`.
+     * 
+     * ### Returns
+     * `API` – the resolved instance.
+     */
+    protected get api(): API {
+        let node: Node | null = this;
+
+        while (node) {
+            if (node instanceof Comp && node.providedAPI_) return node.providedAPI_;
+            node = node.parentNode ?? (node instanceof ShadowRoot ? node.host : null);
+        }
+
+        return Comp.api;
+    }
+
+    /**
+     * ## provideAPI
+     * 
+     * Provides an `API` instance to this Comp and every Comp rendered inside it.
+     * 
+     * ### Parameters
+     * - `api` (`API`): the instance descendants should use.
+     * 
+     * ### Example
+     * ```ts
+     * constructor() {
+     *   super();
+     *   this.provideAPI(new API({ baseURL: "/admin/api", headers: { "X-Tenant": "acme" } }));
+     * }
+     * ```
+     */
+    protected provideAPI(api: API) {
+        this.providedAPI_ = api;
     }
 
     /**
      * ## request
      *
-     * Performs an HTTP GET or POST and returns the parsed JSON body.
+     * Performs an HTTP request and returns the parsed JSON body.
      *
      * ### Behaviour
-     * - Validates that `method` is `"GET"` or `"POST"`.  
-     * - For POST, serialises `data` to JSON.  
-     * - Throws on non-2xx responses or network errors.
+     * - Supports `GET`, `POST`, `PUT`, `PATCH`, `DELETE`, `HEAD` and `OPTIONS`.  
+     * - Serialises plain object `data` to JSON, `FormData`/`Blob`/strings are sent as-is.  
+     * - Never throws, non-2xx responses, network errors, timeouts and aborts resolve
+     *   with `ok: false`.
      *
      * ### Type Parameters
      * - `T` – the expected shape of the JSON response.
      *
      * ### Parameters
      * - `url` (`string`): endpoint URL (absolute or relative).
-     * - `method` (`"GET" | "POST"`): HTTP verb.
-     * - `data?` (`object`): request payload for POST; ignored for GET.
+     * - `method` (`HttpMethod`): HTTP verb.
+     * - `data?` (`object`): request payload; ignored for GET, HEAD and OPTIONS.
+     * - `options?` (`RequestOptions`):
+     *   - `headers` – extra request headers  
+     *   - `query` – values appended as a query string  
+     *   - `credentials` – `fetch` credentials mode  
+     *   - `timeout` – milliseconds before the request is aborted  
+     *   - `signal` – an `AbortSignal` to cancel the request, combined with `abortSignal`  
+     *   - `retry` – a `RetryPolicy` (attempts, backoff, methods, statuses) or `false`  
+     *   - `responseType` – `json`, `text`, `blob`, `arrayBuffer`, `stream` or `auto` (default)  
      *
      * ### Returns
      * `Promise<ApiResponseT>` – the deserialised JSON response.
      * - `ok`: boolean
      * - `status`: number
      * - `data`?: T
-     * - `error`?: string
+     * - `error`?: string – parsed consistently, including RFC 7807 problem+json
+     * - `problem`?: ProblemDetails
+     * - `attempts`?: number – how many times the request was sent
      *
      * ### Example
      * ```ts
@@ -504,10 +1711,22 @@ export abstract class Comp extends HTMLElement {
      * } else {
      *    console.error("Login error:", loginResp.status, loginResp.error);
      * }
+     * 
+     * // PATCH with options
+     * await this.request(`/api/users/${id}`, "PATCH", { name }, {
+     *   headers: { "X-Request-Id": crypto.randomUUID() },
+     *   query: { notify: true },
+     *   timeout: 5000
+     * });
      * ```
      */
-    public async request<T>(url: string, method: "GET" | "POST", data?: object): Promise<ApiResponse<T>> {
-        return this.api.request<T>(url, method, data);
+    public async request<T>(
+        url: string,
+        method: HttpMethod,
+        data?: object,
+        options?: RequestOptions
+    ): Promise<ApiResponse<T>> {
+        return this.withSignal(options, opts => this.api.request<T>(url, method, data, opts));
     }
 
     /**
@@ -521,6 +1740,10 @@ export abstract class Comp extends HTMLElement {
      * - If passed a `FormData` instance, sends it directly.
      * - If passed a plain object, converts each key/value pair into FormData entries.
      * - Uses `fetch()` under the hood and throws on non-2xx responses or network errors.
+     * - If passed a `schema`, validates the values first and does not send the request
+     *   until they pass. Errors are exposed on `formErrors` and the `<field>_error` props.
+     * - Field errors returned by the server (`errors` or `fieldErrors` in the error body)
+     *   are mapped back onto the same fields.
      * 
      * ### Type Parameters
      * - `T` – the expected shape of the JSON response.
@@ -531,9 +1754,12 @@ export abstract class Comp extends HTMLElement {
      *   - An `HTMLFormElement` to be serialised  
      *   - A `FormData` object  
      *   - A plain object which will be converted to `FormData`  
+     * - `schema?` (`ValidationSchema`): optional validation rules keyed by field name.
+     * - `options?` (`RequestOptions`): headers, query, timeout, signal and retry policy.
      * 
      * ### Returns
-     * `Promise<T>` – the parsed JSON response body.
+     * `Promise<ApiResponse<T>>` – the parsed JSON response, with `fieldErrors` set when
+     * validation failed (`status` 0) or the server rejected fields.
      * 
      * ### Examples
      * 
@@ -558,27 +1784,249 @@ export abstract class Comp extends HTMLElement {
      * );
      * ```
      * 
-     * // 3) Passing a plain object
+     * // 3) Passing a plain object
+     * ```ts
+     * 
+     * const data = { name: "Alice", age: 30, newsletter: true };
+     * const result = await this.submitForm<{ status: "ok" }>(
+     *   "/api/subscribe",
+     *   data
+     * );
+     * ```
+     * 
+     * // 4) Validating before submitting
+     * ```ts
+     * 
+     * email = prop({ default: "" });
+     * 
+     * const result = await this.submitForm("/api/subscribe", form, {
+     *   email: { required: true, email: true }
+     * });
+     * // On failure `this.errorOf("email")` holds "Enter a valid email address."
+     * ```
+     */
+    public async submitForm<T>(
+        url: string,
+        data: HTMLFormElement | FormData | Record<string, any>,
+        schema?: ValidationSchema,
+        options?: RequestOptions
+    ): Promise<ApiResponse<T>> {
+        const formData = this.toFormData(data);
+
+        if (schema) {
+            const values = data instanceof HTMLFormElement || data instanceof FormData
+                ? Object.fromEntries(formData.entries())
+                : data;
+
+            if (!(await this.validate(schema, values))) {
+                return { ok: false, status: 0, error: "Validation failed", fieldErrors: { ...this.formErrors } };
+            }
+        }
+
+        const response = await this.withSignal(options, opts => this.api.submitForm<T>(url, formData, opts));
+
+        if (schema && response.fieldErrors) this.setFieldErrors(response.fieldErrors);
+        return response;
+    }
+
+    /**
+     * ## upload
+     * 
+     * Sends form data via `multipart/form-data` POST while reporting upload progress.
+     * 
+     * ### Behaviour
+     * - Accepts the same `data` as `submitForm()`. `File`/`Blob` values (or arrays of them)
+     *   in a plain object are appended as files.
+     * - With `options.prop`, sets the prop's loading state while the upload runs, keeps its
+     *   progress updated and sets its error on failure, re-rendering as they change. Read
+     *   them with `loadingOf()`, `progressOf()` and `errorOf()`. The response data is not
+     *   written to the prop itself.
+     * - `onUploadProgress`/`onDownloadProgress` callbacks receive the same progress,
+     *   including an estimate for each file.
+     * - Cancel with `options.signal`, the response then has `status` 0.
+     * 
+     * ### Parameters
+     * - `url` (`string`): the endpoint URL to POST to.
+     * - `data` (`HTMLFormElement | FormData | Record<string, any>`): the payload.
+     * - `options?` (`UploadOptions & { prop?: string }`): request options, progress
+     *   callbacks and the prop to expose state on.
+     * 
+     * ### Returns
+     * `Promise<ApiResponse<T>>` – the parsed response.
+     * 
+     * ### Example
+     * ```ts
+     * avatar = prop({ default: null });
+     * controller = new AbortController();
+     * 
+     * createHTML() {
+     *   const progress = this.progressOf("avatar");
+     *   return html`
+     *     <input type="file" multiple @change=${this.onPick}>
+     *     ${this.loadingOf("avatar") && html`<progress max="100" value="${progress?.percent ?? 0}"></progress>
+     *       <button @click=${() => this.controller.abort()}>Cancel</button>`}
+     *     ${progress?.files.map(f => html`<p>${f.name}: ${f.percent}%</p>`)}`;
+     * }
+     * 
+     * onPick(e) {
+     *   this.controller = new AbortController();
+     *   this.upload("/api/avatar", { files: [...e.target.files] }, {
+     *     prop: "avatar", signal: this.controller.signal
+     *   });
+     * }
+     * ```
+     */
+    public async upload<T>(
+        url: string,
+        data: HTMLFormElement | FormData | Record<string, any>,
+        options: UploadOptions & { prop?: string } = {}
+    ): Promise<ApiResponse<T>> {
+        const { prop: key, ...rest } = options;
+        const state = key && this.properties[key] ? this as any : undefined;
+
+        if (state) {
+            state[`${key}_error`] = undefined;
+            state[`${key}_progress`] = undefined;
+            state[`${key}_loading`] = true;
+        }
+
+        const response = await this.withSignal(rest, opts => this.api.upload<T>(url, this.toFormData(data), {
+            ...opts,
+            onUploadProgress: progress => {
+                if (state) state[`${key}_progress`] = progress;
+                rest.onUploadProgress?.(progress);
+            }
+        }));
+
+        if (state && !this.abortSignal.aborted) {
+            state[`${key}_loading`] = false;
+            if (!response.ok) state[`${key}_error`] = response.error;
+        }
+
+        return response;
+    }
+
+    /**
+     * Helper method converts a form element or plain object into `FormData`, keeping
+     * `Blob`/`File` values and appending arrays item by item.
+     */
+    private toFormData(data: HTMLFormElement | FormData | Record<string, any>): FormData {
+        if (data instanceof HTMLFormElement) return new FormData(data);
+        if (data instanceof FormData) return data;
+
+        const formData = new FormData();
+        for (const [k, v] of Object.entries(data)) {
+            for (const item of Array.isArray(v) ? v : [v]) {
+                formData.append(k, item instanceof Blob ? item : String(item));
+            }
+        }
+
+        return formData;
+    }
+
+    /**
+     * ## validate
+     * 
+     * Validates values against a schema and updates the field error state.
+     * 
+     * ### Behaviour
+     * - Runs every rule in `schema`, including async and cross-field `validate` functions.
+     * - Writes each field's message (or `undefined` once valid) to `formErrors[field]` and,
+     *   when the field is a prop, to its `<field>_error` accessor. Both trigger a re-render.
+     * - If `values` is omitted, reads the current prop values for each field.
+     * 
+     * ### Parameters
+     * - `schema` (`ValidationSchema`): rules keyed by field name.
+     * - `values?` (`Record<string, any>`): the values to check.
+     * 
+     * ### Returns
+     * `Promise<boolean>` – `true` when every field is valid.
+     * 
+     * ### Example
+     * ```ts
+     * async onBlur() {
+     *   await this.validate({ email: { required: "Email is required", email: true } });
+     * }
+     * 
+     * createHTML() {
+     *   return html`<input bind="email" @blur=${this.onBlur}><p>${this.errorOf("email")}</p>`;
+     * }
+     * ```
+     */
+    protected async validate(schema: ValidationSchema, values?: Record<string, any>): Promise<boolean> {
+        const input = values ?? Object.fromEntries(Object.keys(schema).map(field => [field, (this as any)[field]]));
+        const errors = await new Validator(schema).validate(input);
+
+        this.setFieldErrors(Object.fromEntries(Object.keys(schema).map(field => [field, errors[field]])));
+        return Object.keys(errors).length === 0;
+    }
+
+    /**
+     * Helper method writes field errors to `formErrors` and matching `_error` props.
+     */
+    private setFieldErrors(errors: Record<string, string | undefined>) {
+        const next = { ...this.formErrors };
+
+        for (const [field, error] of Object.entries(errors)) {
+            if (error) next[field] = error;
+            else delete next[field];
+
+            if (this.properties[field]) (this as any)[`${field}_error`] = error;
+        }
+
+        this.formErrors = next;
+        this.requestUpdate();
+    }
+
+    /**
+     * ## fetchQuery
+     * 
+     * Reads async data from the shared query cache, `Comp.queries`.
+     * 
+     * ### Behaviour
+     * - The first read of a key anywhere fetches it. Other Comps reading the key while
+     *   it loads share the same request.
+     * - Every Comp that rendered the entry re-renders when it updates.
+     * - Data older than `ttl` is returned as is while it revalidates in the background,
+     *   which happens when a Comp first reads it after connecting, on window focus, on
+     *   reconnect and on `Comp.queries.invalidate(key)`.
+     * - `fetching` is `true` during background revalidation, `loading` only while there
+     *   is no data yet.
+     * 
+     * ### Type Parameters
+     * - `T` – The loaded data type.
+     * 
+     * ### Parameters
+     * - `key` (`string`): The cache key, shared by every Comp.
+     * - `loader` (`() => Promise<T>`): Loads the data, rejecting with the error on failure.
+     * - `options?` (`QueryOptions`): `ttl`, `staleWhileRevalidate`, `refetchOnFocus`
+     *   and `refetchOnReconnect`.
+     * 
+     * ### Returns
+     * `FetchEntry<T>` – the current entry.
+     * 
+     * ### Example
      * ```ts
+     * createHTML() {
+     *   const { value: user, loading, error } = this.fetchQuery<User>(
+     *     "me",
+     *     () => this.request<User>("/me", "GET").then(res => res.ok ? res.data! : Promise.reject(res.error)),
+     *     { ttl: 60_000 }
+     *   );
      * 
-     * const data = { name: "Alice", age: 30, newsletter: true };
-     * const result = await this.submitForm<{ status: "ok" }>(
-     *   "/api/subscribe",
-     *   data
-     * );
+     *   if (loading) return `<p>Loading…</p>`;
+     *   if (error) return `<p>${error}</p>`;
+     *   return `<p>${user!.name}</p>`;
+     * }
      * ```
      */
-    public async submitForm<T>(url: string, data: HTMLFormElement | FormData | Record<string, any>): Promise<ApiResponse<T>> {
-        let formData: FormData;
-
-        if (data instanceof HTMLFormElement) formData = new FormData(data);
-        else if (data instanceof FormData) formData = data;
-        else {
-            formData = new FormData();
-            for (const [k, v] of Object.entries(data)) { formData.append(k, String(v)); }
+    public fetchQuery<T>(key: string, loader: () => Promise<T>, options?: QueryOptions): FetchEntry<T> {
+        if (!this.queried_.has(key)) {
+            this.queried_.add(key);
+            Comp.queries.revalidate(key);
         }
 
-        return this.api.submitForm<T>(url, formData);
+        return Comp.queries.query<T>(key, loader, options);
     }
 
     /**
@@ -588,6 +2036,9 @@ export abstract class Comp extends HTMLElement {
      * that tracks loading, success and error states. Subsequent calls with the
      * same key return the cached result instead of re‐invoking the loader.
      * 
+     * Entries are private to the instance and never refetched, use `fetchQuery()` to share
+     * data between Comps and keep it fresh.
+     * 
      * ### Behaviour
      * - On first invocation the fetched data is stored within the component's `asyncStore`.
      * - On subsequent calls, the data is retrieved from `asyncStore`
@@ -597,7 +2048,8 @@ export abstract class Comp extends HTMLElement {
      * 
      * ### Parameters
      * - `key` (`string`): The desired key from the request response.
-     * - `loader` (`Promise<T>`): A function that returns a `Promise<T>`. Called only once.
+     * - `loader` (`(signal) => Promise<T>`): A function that returns a `Promise<T>`. Called only
+     *   once, with a signal aborted when the Comp disconnects.
      * 
      * ### Returns
      * `FetchEntry<T>` – the fetched response object.
@@ -620,22 +2072,35 @@ export abstract class Comp extends HTMLElement {
      * }
      * ```
     */
-    public fetchOnce<T>(key: string, loader: () => Promise<T>): FetchEntry<T> {
+    public fetchOnce<T>(key: string, loader: (signal: AbortSignal) => Promise<T>): FetchEntry<T> {
         let entry = this.asyncStore[key] as FetchEntry<T>;
         if (entry) return entry;
 
         entry = { value: undefined, loading: true, error: undefined };
         this.asyncStore[key] = entry;
 
-        loader().then(result => {
+        const signal = this.abortSignal;
+
+        // Settling after a disconnect drops the entry so it is fetched again on reconnect.
+        const aborted = () => {
+            if (!signal.aborted) return false;
+            if (this.asyncStore[key] === entry) delete this.asyncStore[key];
+            return true;
+        };
+
+        loader(signal).then(result => {
+            if (aborted()) return;
+
             entry.value = result;
             entry.error = undefined;
             entry.loading = false;
-            this.update();
+            this.requestUpdate();
         }).catch(err => {
+            if (aborted()) return;
+
             entry.error = err?.message || err;
             entry.loading = false;
-            this.update();
+            this.requestUpdate();
         });
 
         return entry;
@@ -740,6 +2205,54 @@ export abstract class Comp extends HTMLElement {
         return unsubscribe;
     }
 
+    /**
+     * ## subscribeChannel
+     * 
+     * Listens to a realtime channel for as long as the component is connected.
+     * 
+     * ### Behaviour
+     * - Subscribes through `client.subscribe()`, opening its connection if needed.
+     * - The subscription is removed automatically in `disconnectedCallback`, so call it
+     *   from `connectedCallback()` (after `super.connectedCallback()`) to resubscribe
+     *   when the Comp is moved.
+     * - The listener doesn't re-render by itself, write to a prop or store instead.
+     * 
+     * ### Type Parameters
+     * - `T` – The shape of the channel data.
+     * 
+     * ### Parameters
+     * - `client` (`RealtimeClient`): The shared WebSocket or SSE client.
+     * - `channel` (`string`): The channel name.
+     * - `listener` (`(data: T, message) => void`): Called with each message on the channel.
+     * 
+     * ### Returns
+     * `() => void` – A function that unsubscribes early.
+     * 
+     * ### Example
+     * ```ts
+     * const live = new RealtimeClient("wss://api.example.com/live");
+     * 
+     * class PriceTicker extends Comp {
+     *   price = prop({ default: 0 });
+     * 
+     *   connectedCallback() {
+     *     super.connectedCallback();
+     *     this.subscribeChannel<{ price: number }>(live, "prices", tick => this.price = tick.price);
+     *   }
+     * }
+     * ```
+     */
+    protected subscribeChannel<T>(
+        client: RealtimeClient,
+        channel: string,
+        listener: (data: T, message: any) => void
+    ): () => void {
+        const unsubscribe = client.subscribe<T>(channel, listener);
+        this.unsubscribers_.push(unsubscribe);
+
+        return unsubscribe;
+    }
+
     /**
      * ## disconnectedCallback
      * 
@@ -747,6 +2260,8 @@ export abstract class Comp extends HTMLElement {
      * 
      * ### Behaviour
      * - Calls all stored unsubscribe functions to remove active listeners.  
+     * - Aborts `abortSignal`, cancelling requests still in flight.  
+     * - Unbinds from any shared stores read during rendering.  
      * - Clears internal maps and lists to prevent memory leaks.
      * 
      * ### Returns
@@ -759,8 +2274,219 @@ export abstract class Comp extends HTMLElement {
      */
     disconnectedCallback() {
         this.mounted = false;
+        this.abort_?.abort();
+
+        this.pending_ = false;
+        this.settle_?.();
+        this.settle_ = undefined;
+
+        this.queried_.clear();
         this.unsubscribers_.forEach(unsub => unsub());
         this.unsubscribers_.length = 0;
+
+        this.storeBindings_.forEach(keys => keys.forEach(unbind => unbind()));
+        this.storeBindings_.clear();
+
+        // Without bindings store changes go unseen, so computeds re-evaluate on the next read.
+        for (const state of Object.values(this.computeds_)) state.dirty = true;
+    }
+
+    /**
+     * Helper method starts listening for `input`/`change` events on bound form controls.
+     */
+    private listenBindings(): void {
+        if (this.bindingsListening_) return;
+
+        const root = this.shadowRoot!;
+        const listener = (event: Event) => {
+            const el = event.composedPath()[0];
+            if (!(el instanceof Element) || el.getRootNode() !== root) return;
+
+            const key = el.getAttribute("bind");
+            if (!key) return;
+
+            if (el instanceof HTMLInputElement && el.type === "radio" && !el.checked) return;
+            (this as any)[key] = this.readControl(el);
+        };
+
+        root.addEventListener("input", listener);
+        root.addEventListener("change", listener);
+        this.bindingsListening_ = true;
+
+        this.unsubscribers_.push(() => {
+            root.removeEventListener("input", listener);
+            root.removeEventListener("change", listener);
+            this.bindingsListening_ = false;
+        });
+    }
+
+    /**
+     * Helper method reads the value of a bound form control.
+     */
+    private readControl(el: Element): any {
+        if (el instanceof HTMLInputElement) {
+            if (el.type === "checkbox") return el.checked;
+            if ((el.type === "number" || el.type === "range") && !isNaN(el.valueAsNumber)) return el.valueAsNumber;
+            return el.value;
+        }
+
+        if (el instanceof HTMLSelectElement && el.multiple) {
+            return Array.from(el.selectedOptions).map(option => option.value);
+        }
+
+        return (el as HTMLTextAreaElement | HTMLSelectElement).value;
+    }
+
+    /**
+     * Helper method writes prop values into every bound form control after a render.
+     * 
+     * Controls already holding the value are left alone so caret position is kept.
+     */
+    private syncBindings(): void {
+        for (const el of Array.from(this.queryAll("[bind]"))) {
+            const value = (this as any)[el.getAttribute("bind")!];
+
+            if (el instanceof HTMLInputElement && el.type === "checkbox") el.checked = !!value;
+            else if (el instanceof HTMLInputElement && el.type === "radio") el.checked = el.value === String(value);
+            else if (el instanceof HTMLSelectElement && el.multiple) {
+                const selected = Array.isArray(value) ? value.map(String) : [];
+                for (const option of Array.from(el.options)) option.selected = selected.includes(option.value);
+            } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) {
+                const text = value === undefined || value === null ? "" : String(value);
+                if (el.value !== text) el.value = text;
+            }
+        }
+    }
+
+    /**
+     * Helper method submits `value` as this Comp's form value, if form-associated.
+     */
+    private syncFormValue(value: any): void {
+        if (!this.internals_) return;
+
+        if (value === undefined || value === null) this.internals_.setFormValue(null);
+        else if (typeof value === "string" || value instanceof File || value instanceof FormData) {
+            this.internals_.setFormValue(value);
+        } else if (typeof value === "object") this.internals_.setFormValue(JSON.stringify(value));
+        else this.internals_.setFormValue(String(value));
+    }
+
+    /**
+     * Helper method returns the element internals, throwing if the Comp isn't form-associated.
+     */
+    private get formInternals(): ElementInternals {
+        if (!this.internals_) {
+            throw new Error(`${this.tagName.toLowerCase()} is not form-associated, set static formAssociated = true.`);
+        }
+
+        return this.internals_;
+    }
+
+    /**
+     * ## setFormValue
+     * 
+     * Sets the value this Comp submits with its owning `<form>`.
+     * 
+     * ### Behaviour
+     * - Only available when the class sets `static formAssociated = true`.
+     * - Comps with a `static formProp` call this automatically when that prop changes.
+     * 
+     * ### Parameters
+     * - `value` (`File | string | FormData | null`): The submitted value.
+     * - `state?` (`File | string | FormData | null`): Optional state for restoring the control.
+     * 
+     * ### Example
+     * ```ts
+     * this.setFormValue(this.selectedIds.join(","));
+     * ```
+     */
+    protected setFormValue(value: File | string | FormData | null, state?: File | string | FormData | null) {
+        this.formInternals.setFormValue(value, state);
+    }
+
+    /**
+     * ## setValidity
+     * 
+     * Reports this Comp's validity to its owning `<form>`.
+     * 
+     * ### Behaviour
+     * - Pass an empty object to mark the Comp valid.
+     * - Invalid Comps block native form submission and match `:invalid`.
+     * 
+     * ### Parameters
+     * - `flags` (`ValidityStateFlags`): e.g. `{ valueMissing: true }`.
+     * - `message?` (`string`): Message shown by `reportValidity()`.
+     * - `anchor?` (`HTMLElement`): Element the browser anchors the message to.
+     * 
+     * ### Example
+     * ```ts
+     * if (!this.value) this.setValidity({ valueMissing: true }, "Pick a date", this.query("input")!);
+     * else this.setValidity({});
+     * ```
+     */
+    protected setValidity(flags: ValidityStateFlags, message?: string, anchor?: HTMLElement) {
+        this.formInternals.setValidity(flags, message, anchor);
+    }
+
+    /**
+     * The `<form>` that owns this Comp, if it is form-associated.
+     */
+    public get form(): HTMLFormElement | null {
+        return this.internals_?.form ?? null;
+    }
+
+    /**
+     * The validity state of this Comp, if it is form-associated.
+     */
+    public get validity(): ValidityState | undefined {
+        return this.internals_?.validity;
+    }
+
+    /**
+     * The validation message of this Comp, if it is form-associated.
+     */
+    public get validationMessage(): string {
+        return this.internals_?.validationMessage ?? "";
+    }
+
+    /**
+     * Whether this Comp takes part in form validation.
+     */
+    public get willValidate(): boolean {
+        return this.internals_?.willValidate ?? false;
+    }
+
+    /**
+     * Checks validity without showing UI, like `HTMLInputElement.checkValidity()`.
+     */
+    public checkValidity(): boolean {
+        return this.internals_?.checkValidity() ?? true;
+    }
+
+    /**
+     * Checks validity and shows the browser's message, like `HTMLInputElement.reportValidity()`.
+     */
+    public reportValidity(): boolean {
+        return this.internals_?.reportValidity() ?? true;
+    }
+
+    /**
+     * Custom Elements hook for form-associated Comps, resets the `formProp` to its default.
+     */
+    formResetCallback() {
+        const formProp = (this.constructor as typeof Comp).formProp;
+        const prop = formProp ? this.properties[formProp] : undefined;
+
+        if (formProp && prop) (this as any)[formProp] = prop.default;
+    }
+
+    /**
+     * Custom Elements hook for form-associated Comps, restores the `formProp` after
+     * navigation or autofill.
+     */
+    formStateRestoreCallback(state: string | File | FormData | null) {
+        const formProp = (this.constructor as typeof Comp).formProp;
+        if (formProp && typeof state === "string") (this as any)[formProp] = state;
     }
 
     /**
@@ -866,9 +2592,29 @@ export abstract class Comp extends HTMLElement {
     }
 
     /**
-     * Helper method that creates a template from component's HTML/CSS
+     * Helper method that creates a template from component's HTML/CSS, accepting plain
+     * strings or `html` template results.
+     * 
+     * Where constructable stylesheets are supported the CSS is adopted instead of
+     * being inlined, falling back to a `<style>` block otherwise. Tags scoped by the
+     * class's `registry` are rewritten to their registered names.
      */
-    private createTemplate(html: string, css: string): string {
+    private createTemplate(template: string | TemplateResult, css: string): string {
+        const handlers: Function[] = [];
+        let html = template instanceof TemplateResult ? template.render(handlers) : template;
+
+        this.handlers_ = handlers;
+        this.delegateEvents(html);
+        if (/\sbind\s*=/.test(html)) this.listenBindings();
+
+        const registry = (this.constructor as typeof Comp).registry;
+        if (registry) html = registry.transform(html);
+
+        if (StyleSheets.supported) {
+            this.adoptStyles(css);
+            return html;
+        }
+
         return /* html */ `
         ${html}
         <style>
@@ -878,6 +2624,67 @@ export abstract class Comp extends HTMLElement {
         `;
     }
 
+    /**
+     * Helper method adds one delegated listener to the shadow root for every `on-<event>`
+     * attribute type found in `html`. Listeners are removed on disconnect.
+     */
+    private delegateEvents(html: string): void {
+        for (const [, type] of html.matchAll(/\son-([a-z][a-z0-9-]*)\s*=/g)) {
+            if (this.delegated_.has(type)) continue;
+
+            const root = this.shadowRoot!;
+            const listener = (event: Event) => this.dispatchBound(event);
+
+            // Capture so non-bubbling events (focus, blur, mouseenter…) reach the root too.
+            root.addEventListener(type, listener, true);
+            this.delegated_.add(type);
+
+            this.unsubscribers_.push(() => {
+                root.removeEventListener(type, listener, true);
+                this.delegated_.delete(type);
+            });
+        }
+    }
+
+    /**
+     * Helper method calls the bound handlers of every element on the event's path,
+     * innermost first, stopping if a handler stops propagation.
+     */
+    private dispatchBound(event: Event): void {
+        const attr = `on-${event.type.toLowerCase()}`;
+
+        for (const node of event.composedPath()) {
+            if (node === this.shadowRoot) break;
+            if (!(node instanceof Element) || node.getRootNode() !== this.shadowRoot) continue;
+
+            const ref = node.getAttribute(attr);
+            if (ref === null) continue;
+
+            const handler = ref.startsWith("@") ? this.handlers_[Number(ref.slice(1))] : (this as any)[ref];
+            if (typeof handler === "function") handler.call(this, event, node);
+            else console.warn(`${this.tagName.toLowerCase()}: no handler "${ref}" for ${attr}.`);
+
+            if (event.cancelBubble) break;
+        }
+    }
+
+    /**
+     * Helper method adopts the shared default sheet and the class sheet for `css`.
+     * 
+     * Sheets are compiled once per distinct CSS output and reused across instances,
+     * so the shadow root is only touched when the CSS actually changed.
+     */
+    private adoptStyles(css: string): void {
+        const base = this.design.defaultComp();
+        if (this.adoptedCSS_ === base + css) return;
+
+        this.adoptedCSS_ = base + css;
+        this.shadowRoot!.adoptedStyleSheets = [
+            this.styles.shared(base),
+            this.styles.forClass(this.constructor, css)
+        ];
+    }
+
     /**
      * ## createHTML
      * 
@@ -887,20 +2694,100 @@ export abstract class Comp extends HTMLElement {
      * - Must be overridden by subclasses to return the HTML fragment 
      *   that represents this component’s structure.
      * - Should not include `<style>` tags or host-level wrappers.
+     * - Prefer the `html` tagged template, which escapes interpolated values. Plain
+     *   strings are inserted as-is, so escape any user data yourself.
      * 
      * ### Returns
-     * - `string`: HTML markup to inject into the shadow root.
+     * - `string | TemplateResult`: HTML markup to inject into the shadow root.
      * 
      * ### Example
      * ```js
      * createHTML() {
-     *   return `
+     *   return html`
      *     <button class="btn">${this.text}</button>
+     *     ${this.notes.map(note => html`<p key="${note.id}">${note.body}</p>`)}
      *   `;
      * }
      * ```
      */
-    protected abstract createHTML(): string;
+    protected abstract createHTML(): string | TemplateResult;
+
+    /**
+     * ## createLoadingHTML
+     * 
+     * Optional hook returning the markup shown while async data is pending.
+     * 
+     * ### Behaviour
+     * - Rendered instead of `createHTML()` while any `fetchOnce()` entry, `fetchQuery()`
+     *   entry read by this Comp, or resource prop is loading.
+     * - Background revalidation of cached queries doesn't count as pending.
+     * 
+     * ### Returns
+     * - `string | TemplateResult`: The loading markup.
+     * 
+     * ### Example
+     * ```js
+     * createLoadingHTML() {
+     *   return html`<div class="skeleton"></div>`;
+     * }
+     * ```
+     */
+    protected createLoadingHTML?(): string | TemplateResult;
+
+    /**
+     * ## createErrorHTML
+     * 
+     * Optional hook returning the markup shown when async data failed to load.
+     * 
+     * ### Behaviour
+     * - Rendered instead of `createHTML()` once nothing is pending and a `fetchOnce()`
+     *   entry, `fetchQuery()` entry or resource prop has an error and no data. A failed
+     *   refetch of data already loaded keeps rendering `createHTML()`.
+     * 
+     * ### Parameters
+     * - `error` (`unknown`): The first error found, usually a message string.
+     * 
+     * ### Returns
+     * - `string | TemplateResult`: The error markup.
+     * 
+     * ### Example
+     * ```js
+     * createErrorHTML(error) {
+     *   return html`<p class="error">${error}</p><button @click=${() => this.reload("user")}>Retry</button>`;
+     * }
+     * ```
+     */
+    protected createErrorHTML?(error: unknown): string | TemplateResult;
+
+    /**
+     * ## onError
+     * 
+     * Optional hook called when a render hook throws.
+     * 
+     * ### Behaviour
+     * - Called with the error and the hook it came from: `beforeRender`, `createHTML`,
+     *   `createCSS` or `afterRender`.
+     * - Return `true` once the error is handled. Otherwise a composed `comp-error`
+     *   event carries it to the nearest `Boundary`, which renders its error fallback.
+     * - `Comp.errorHandler` is called first, whatever this returns.
+     * 
+     * ### Parameters
+     * - `error` (`unknown`): The thrown value.
+     * - `phase` (`RenderPhase`): The hook that threw.
+     * 
+     * ### Returns
+     * - `boolean | void`: `true` to stop the error reaching a boundary.
+     * 
+     * ### Example
+     * ```js
+     * onError(error, phase) {
+     *   if (phase !== "afterRender") return;
+     *   console.warn("Chart failed to draw", error);
+     *   return true;
+     * }
+     * ```
+     */
+    protected onError?(error: unknown, phase: RenderPhase): boolean | void;
 
     /**
      * ## createCSS
@@ -1003,6 +2890,9 @@ export abstract class Comp extends HTMLElement {
      * - Must be overridden by subclasses.
      * - Called automatically after `render()` injects HTML & CSS.
      * - Use `this.shadowRoot` to query elements inside the shadow DOM.
+     * - Runs after every render. Elements kept by the diff still carry listeners
+     *   from earlier renders, so prefer declarative `@event`/`on-event` bindings or
+     *   `on<event>` properties, or guard against adding the same listener twice.
      * 
      * ### Returns
      * - `void`
@@ -1011,9 +2901,9 @@ export abstract class Comp extends HTMLElement {
      * ```js
      * afterRender() {
      *   const btn = this.shadowRoot.querySelector('button');
-     *   btn.addEventListener('click', () => {
+     *   btn.onclick = () => {
      *     console.log('Clicked!', this.text);
-     *   });
+     *   };
      * }
      * ```
      */
@@ -1040,3 +2930,118 @@ export abstract class Comp extends HTMLElement {
      */
     protected abstract beforeRender(): void;
 }
+
+/**
+ * # Boundary
+ * 
+ * Comp showing a single fallback while any Comp inside it is waiting on async data, and
+ * an error fallback when one fails to render.
+ * 
+ * ### Overview:
+ * Comps dispatch a composed `comp-pending` event when they start waiting on a
+ * `fetchOnce()` entry, `fetchQuery()` entry or resource prop. The nearest boundary claims
+ * it and hides its children, showing the `fallback` slot instead, until every pending
+ * Comp inside it has settled. Children keep rendering while hidden so their data loads.
+ * 
+ * Render errors not handled by a Comp's `onError()` bubble as a composed `comp-error`
+ * event. The nearest boundary catches it and shows the `error` slot in place of its
+ * children until `reset()` is called.
+ * 
+ * Boundaries can be nested, a pending or failing Comp only affects its nearest one.
+ * Define `Boundary` before the Comps it wraps so it is listening when they first render.
+ * 
+ * ### Properties:
+ * - **error** (`RenderErrorDetail | undefined`): The error being shown, if any.
+ * 
+ * ### Methods:
+ * - **reset()**: Clears the error and renders the children again.
+ * 
+ * ### Example:
+ * ```js
+ * Boundary.define(); // <comp-boundary>
+ * ```
+ * ```html
+ * <comp-boundary>
+ *   <p slot="fallback">Loading dashboard…</p>
+ *   <p slot="error">Something went wrong.</p>
+ *   <user-card></user-card>
+ *   <activity-feed></activity-feed>
+ * </comp-boundary>
+ * ```
+ */
+export class Boundary extends Comp {
+
+    private waiting_ = new Set<Element>();
+    private error_?: RenderErrorDetail;
+    private failed_?: Comp;
+
+    constructor() {
+        super();
+
+        this.addEventListener(PENDING_EVENT, event => {
+            const detail = (event as CustomEvent<PendingDetail>).detail;
+            const source = event.composedPath()[0] as Element;
+            if (source === this || detail.settle) return;
+
+            event.stopPropagation();
+            this.waiting_.add(source);
+            detail.settle = () => {
+                if (this.waiting_.delete(source)) this.requestUpdate();
+            };
+
+            this.requestUpdate();
+        });
+
+        this.addEventListener(ERROR_EVENT, event => {
+            const detail = (event as CustomEvent<RenderErrorDetail>).detail;
+            const source = event.composedPath()[0];
+            if (source === this || detail.handled) return;
+
+            event.stopPropagation();
+            detail.handled = true;
+            this.error_ = detail;
+            this.failed_ = source as Comp;
+            this.requestUpdate();
+        });
+    }
+
+    /**
+     * The render error this boundary is showing, if any.
+     */
+    public get error(): RenderErrorDetail | undefined {
+        return this.error_;
+    }
+
+    /**
+     * ## reset
+     * 
+     * Clears the caught error and shows the children again, re-rendering the Comp that
+     * failed so it can recover.
+     * 
+     * ### Returns
+     * `void`
+     */
+    public reset(): void {
+        this.failed_?.requestUpdate();
+        this.error_ = undefined;
+        this.failed_ = undefined;
+        this.requestUpdate();
+    }
+
+    protected createHTML(): string {
+        const state = this.error_ ? "error" : this.waiting_.size > 0 ? "fallback" : "content";
+        const hidden = (name: string) => state === name ? "" : " hidden";
+
+        return `<slot${hidden("content")}></slot>`
+            + `<slot name="fallback"${hidden("fallback")}></slot>`
+            + `<slot name="error"${hidden("error")}></slot>`;
+    }
+
+    protected createCSS(): Array<CSSConfig> {
+        return [];
+    }
+
+    protected afterRender(): void {}
+
+    protected beforeRender(): void {}
+}
@@ -0,0 +1,181 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    html.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+/**
+ * Result of an `html` tagged template, rendered to a string by `Comp`.
+ */
+export class TemplateResult {
+    constructor(
+        public readonly strings: TemplateStringsArray,
+        public readonly values: unknown[]
+    ) {}
+
+    /**
+     * Joins the template, escaping every interpolated value.
+     *
+     * Functions bound with `@event=${fn}` are pushed onto `handlers` and rendered as an
+     * `on-event="@<index>"` attribute for `Comp` to dispatch to. Values in an unquoted
+     * attribute position are quoted, so they can't add attributes of their own, and values
+     * anywhere else inside a tag throw.
+     */
+    public render(handlers: Function[] = []): string {
+        let out = "";
+        let context: MarkupContext = "text";
+
+        this.strings.forEach((str, i) => {
+            context = scanContext(str, context);
+
+            if (i >= this.values.length) {
+                out += str;
+                return;
+            }
+
+            const value = this.values[i];
+            const binding = typeof value === "function" ? str.match(/@([a-zA-Z][\w-]*)=(["']?)$/) : null;
+
+            if (binding) {
+                const [match, event, quote] = binding;
+                handlers.push(value as Function);
+
+                out += str.slice(0, -match.length) + `on-${event.toLowerCase()}=`;
+                out += quote ? `${quote}@${handlers.length - 1}` : `"@${handlers.length - 1}"`;
+            } else if (context === "tag") {
+                if (!/=\s*$/.test(str)) {
+                    throw new Error(`Values inside a tag must be attribute values (name=\${value}), found after "${str.trim()}".`);
+                }
+                out += str + `"${renderValue(value, handlers)}"`;
+            } else out += str + renderValue(value, handlers);
+        });
+
+        return out;
+    }
+
+    public toString(): string {
+        return this.render();
+    }
+}
+
+/**
+ * Marks a string as trusted HTML, returned by `unsafeHTML()`.
+ */
+export class UnsafeHTML {
+    constructor(public readonly value: string) {}
+
+    public toString(): string {
+        return this.value;
+    }
+}
+
+/**
+ * ## html
+ *
+ * Tagged template for building component markup safely.
+ *
+ * ### Behaviour:
+ * - Interpolated values are HTML-escaped, so user data can't inject markup.
+ * - Values in unquoted attribute positions (`value=${x}`) are wrapped in quotes. Values
+ *   elsewhere inside a tag (`<input ${attrs}>`, `class=a-${x}`) throw, as they could add
+ *   attributes.
+ * - Nested `html` templates and `unsafeHTML()` values are inserted as markup.
+ * - Arrays are rendered item by item and joined, so lists of templates just work.
+ * - `null`, `undefined` and `false` render as nothing.
+ * - `@event=${handler}` binds a function to a DOM event, see `Comp` event binding.
+ *
+ * ### Returns:
+ * `TemplateResult` - Accepted by `Comp` wherever an HTML string is.
+ *
+ * ### Example:
+ * ```js
+ * createHTML() {
+ *     return html`
+ *         <h2 @click=${this.onTitleClick}>${this.title}</h2>
+ *         <ul>${this.items.map(item => html`<li key="${item.id}">${item.name}</li>`)}</ul>
+ *     `;
+ * }
+ * ```
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): TemplateResult {
+    return new TemplateResult(strings, values);
+}
+
+/**
+ * ## unsafeHTML
+ *
+ * Opts a string out of escaping inside an `html` template.
+ *
+ * ### Behaviour:
+ * The value is inserted as raw markup. Only use it for HTML you trust, never for user input.
+ *
+ * ### Parameters:
+ * - **value** (`string`): Trusted HTML.
+ *
+ * ### Returns:
+ * `UnsafeHTML` - A marker rendered without escaping.
+ *
+ * ### Example:
+ * ```js
+ * html`<article>${unsafeHTML(this.sanitisedMarkdown)}</article>`;
+ * ```
+ */
+export function unsafeHTML(value: string): UnsafeHTML {
+    return new UnsafeHTML(value);
+}
+
+/**
+ * Helper escapes the characters that are significant in HTML text and attributes.
+ */
+export function escapeHTML(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Where a template string ends: in text, inside a tag, or inside a quoted attribute value.
+ */
+type MarkupContext = "text" | "tag" | "double" | "single";
+
+/**
+ * Helper scans a static template string, continuing from the context the previous
+ * string ended in. Interpolated values are escaped, so they can't change it.
+ */
+function scanContext(str: string, context: MarkupContext): MarkupContext {
+    for (let i = 0; i < str.length; i++) {
+        const char = str[i];
+
+        if (context === "text") {
+            if (char === "<" && /[a-zA-Z/]/.test(str[i + 1] ?? "")) context = "tag";
+        } else if (context === "tag") {
+            if (char === ">") context = "text";
+            else if (char === '"') context = "double";
+            else if (char === "'") context = "single";
+        } else if ((context === "double" && char === '"') || (context === "single" && char === "'")) {
+            context = "tag";
+        }
+    }
+
+    return context;
+}
+
+/**
+ * Helper renders a single interpolated value.
+ */
+function renderValue(value: unknown, handlers: Function[]): string {
+    if (value === null || value === undefined || value === false) return "";
+    if (value instanceof TemplateResult) return value.render(handlers);
+    if (value instanceof UnsafeHTML) return value.toString();
+    if (Array.isArray(value)) return value.map(item => renderValue(item, handlers)).join("");
+
+    return escapeHTML(String(value));
+}
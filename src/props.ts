@@ -0,0 +1,291 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    props.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+import type { ApiResponse, TransferProgress } from "./api.js";
+
+/**
+ * Constructors accepted by the `type` field of a prop declaration.
+ */
+export type PropType =
+    | StringConstructor
+    | NumberConstructor
+    | BooleanConstructor
+    | ObjectConstructor
+    | ArrayConstructor;
+
+/**
+ * Maps a `PropType` constructor to the value type it describes.
+ */
+export type PropValue<C> =
+    C extends StringConstructor ? string :
+    C extends NumberConstructor ? number :
+    C extends BooleanConstructor ? boolean :
+    C extends ArrayConstructor ? any[] :
+    C extends ObjectConstructor ? Record<string, any> :
+    any;
+
+/**
+ * Shape of a mutable prop declared on a Comp, e.g. `count = { default: 0 }`.
+ */
+export interface PropDeclaration<T = any> {
+    default: T | (() => T);
+    loading?: T | (() => T);
+    error?: T | (() => T);
+    type?: PropType;
+    required?: boolean;
+    validate?: (value: T) => boolean | string;
+    attribute?: string;
+    reflect?: boolean;
+}
+
+/**
+ * Internal per-instance state for a declared prop.
+ */
+export type PropState<T = any> = {
+    default: T;
+    loading?: T;
+    error?: T;
+    progress?: TransferProgress;
+    current: T;
+    attribute: string;
+    reflect: boolean;
+    type?: PropType;
+    required?: boolean;
+    validate?: (value: T) => boolean | string;
+};
+
+/**
+ * ## prop
+ *
+ * Declares a typed mutable prop.
+ *
+ * ### Behaviour:
+ * Returns the declaration unchanged at runtime so `Comp` picks it up like any other
+ * `{ default }` field, but types the field as the prop's value. This means `this.count`
+ * is a `number` rather than the declaration object.
+ *
+ * ### Parameters:
+ * - **declaration** (`PropDeclaration<T>`): The default plus optional `type`, `required`,
+ *   `validate`, `attribute` and `reflect` settings.
+ *
+ * ### Returns:
+ * `T` - The declaration, typed as its value.
+ *
+ * ### Example:
+ * ```ts
+ * count = prop({ default: 0, validate: n => n >= 0 || "count must be positive" });
+ * tags  = prop({ default: () => [], type: Array });
+ * name  = prop({ default: "", type: String, required: true });
+ * ```
+ */
+export function prop<C extends PropType>(declaration: PropDeclaration<PropValue<C>> & { type: C }): PropValue<C>;
+export function prop<T>(declaration: PropDeclaration<T>): T;
+export function prop<T>(declaration: PropDeclaration<T>): T {
+    return declaration as unknown as T;
+}
+
+/**
+ * Helper returns the primitive kind a prop holds, from its `type` or its default.
+ */
+export function propKind(state: PropState): "string" | "number" | "boolean" | "object" | "array" | "any" {
+    switch (state.type) {
+        case String:  return "string";
+        case Number:  return "number";
+        case Boolean: return "boolean";
+        case Array:   return "array";
+        case Object:  return "object";
+    }
+
+    if (Array.isArray(state.default)) return "array";
+
+    const kind = typeof state.default;
+    if (kind === "string" || kind === "number" || kind === "boolean" || kind === "object") return kind;
+
+    return "any";
+}
+
+/**
+ * Helper coerces a value to the declared `type` of a prop where it is unambiguous,
+ * e.g. `"5"` for a `Number` prop. Values without a declared type are returned as is.
+ */
+export function coerceProp(state: PropState, value: any): any {
+    if (!state.type || value === undefined || value === null) return value;
+
+    const kind = propKind(state);
+
+    if (kind === "number" && typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (kind === "boolean" && (value === "true" || value === "false")) return value === "true";
+    if (kind === "string" && (typeof value === "number" || typeof value === "boolean")) return String(value);
+
+    if ((kind === "object" || kind === "array") && typeof value === "string") {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+
+    return value;
+}
+
+/**
+ * Helper validates a value against a prop declaration.
+ *
+ * Returns an error message, or `null` when the value is valid.
+ */
+export function checkProp(key: string, state: PropState, value: any): string | null {
+    const empty = value === undefined || value === null || value === "";
+
+    if (empty) return state.required ? `Prop "${key}" is required.` : null;
+
+    if (state.type) {
+        const kind = propKind(state);
+        const actual = Array.isArray(value) ? "array" : typeof value;
+        const matches = kind === "object" ? actual === "object" : actual === kind;
+
+        if (!matches || (kind === "number" && isNaN(value))) {
+            return `Prop "${key}" expected ${kind} but received ${actual}.`;
+        }
+    }
+
+    if (state.validate) {
+        const result = state.validate(value);
+        if (result === false) return `Prop "${key}" failed validation.`;
+        if (typeof result === "string") return `Prop "${key}": ${result}`;
+    }
+
+    return null;
+}
+
+/**
+ * Marker returned by `computed()`, detected by `Comp` when it scans for props.
+ */
+export class ComputedDeclaration<T = any> {
+    constructor(public readonly get: () => T) {}
+}
+
+/**
+ * Internal per-instance state for a computed prop.
+ */
+export type ComputedState<T = any> = {
+    get: () => T;
+    value?: T;
+    dirty: boolean;
+    deps: Set<string>;
+};
+
+/**
+ * ## computed
+ *
+ * Declares a derived, read-only prop.
+ *
+ * ### Behaviour:
+ * The getter runs lazily the first time the prop is read. Props, other computeds and store
+ * keys read inside it are tracked as dependencies, the cached value is reused until one of
+ * them changes.
+ *
+ * ### Parameters:
+ * - **get** (`() => T`): Function deriving the value from other props.
+ *
+ * ### Returns:
+ * `T` - The declaration, typed as its value.
+ *
+ * ### Example:
+ * ```ts
+ * price = prop({ default: 0 });
+ * qty   = prop({ default: 1 });
+ * total = computed(() => this.price * this.qty);
+ * ```
+ */
+export function computed<T>(get: () => T): T {
+    return new ComputedDeclaration(get) as unknown as T;
+}
+
+/**
+ * Options for a resource prop.
+ *
+ * - **default**: Value held until the first load succeeds.
+ * - **deps**: Props whose changes reload the resource. When omitted, the props read
+ *   synchronously by the loader are tracked instead.
+ */
+export interface ResourceOptions<T> {
+    default?: T | (() => T);
+    deps?: string[];
+}
+
+export class ResourceDeclaration<T = any> {
+    constructor(
+        public readonly loader: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+        public readonly options: ResourceOptions<T> = {}
+    ) {}
+}
+
+/**
+ * Internal per-instance state for a resource prop.
+ */
+export type ResourceState<T = any> = {
+    loader: (signal: AbortSignal) => Promise<ApiResponse<T>>;
+    deps: Set<string>;
+    fixed: boolean;
+    run: number;
+    settled: boolean;
+    loaded: boolean;
+    scheduled: boolean;
+    controller?: AbortController;
+};
+
+/**
+ * ## resource
+ *
+ * Declares a prop loaded asynchronously from an `ApiResponse`.
+ *
+ * ### Behaviour:
+ * The loader runs when the Comp connects. While it is pending `loadingOf(prop)` is `true`,
+ * then the prop is set to the response `data`, or `errorOf(prop)` to its `error` (keeping
+ * the previous value). The resource reloads when one of its dependencies changes, or
+ * when `reload(key)` is called, and responses from superseded loads are ignored.
+ *
+ * The loader receives a signal aborted when it is superseded or the Comp disconnects.
+ *
+ * ### Parameters:
+ * - **loader** (`(signal) => Promise<ApiResponse<T>>`): Loads the value, usually via `this.request()`.
+ * - **options** (`ResourceOptions<T>`, optional): The `default` value and explicit `deps`.
+ *
+ * ### Returns:
+ * `T` - The declaration, typed as its value.
+ *
+ * ### Example:
+ * ```ts
+ * userId = prop({ default: 1 });
+ * user   = resource(() => this.request<User>(`/users/${this.userId}`, "GET"));
+ *
+ * createHTML() {
+ *     if (this.loadingOf("user")) return `<p>Loading…</p>`;
+ *     return `<p>${this.errorOf("user") ?? this.user?.name}</p>`;
+ * }
+ * ```
+ */
+export function resource<T>(
+    loader: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+    options: ResourceOptions<T> & { default: T | (() => T) }
+): T;
+export function resource<T>(
+    loader: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+    options?: ResourceOptions<T>
+): T | undefined;
+export function resource<T>(
+    loader: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+    options: ResourceOptions<T> = {}
+): T | undefined {
+    return new ResourceDeclaration(loader, options) as unknown as T;
+}
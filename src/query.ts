@@ -0,0 +1,289 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    query.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+import type { FetchEntry } from "./api.js";
+import { Store } from "./store.js";
+
+/**
+ * Options for a cached query.
+ *
+ * - **ttl**: How long (ms) data stays fresh before it is revalidated. Defaults to 0.
+ * - **staleWhileRevalidate**: Keep serving stale data while revalidating. When `false`,
+ *   stale data is dropped and the entry shows `loading` again. Defaults to `true`.
+ * - **refetchOnFocus** / **refetchOnReconnect**: Revalidate stale, rendered queries when
+ *   the window regains focus or the browser comes back online. Default to `true`.
+ */
+export interface QueryOptions {
+    ttl?: number;
+    staleWhileRevalidate?: boolean;
+    refetchOnFocus?: boolean;
+    refetchOnReconnect?: boolean;
+}
+
+type QueryRecord = {
+    loader: () => Promise<any>;
+    options: Required<QueryOptions>;
+    promise?: Promise<FetchEntry<any>>;
+    invalid: boolean;
+};
+
+const DEFAULT_OPTIONS: Required<QueryOptions> = {
+    ttl: 0,
+    staleWhileRevalidate: true,
+    refetchOnFocus: true,
+    refetchOnReconnect: true
+};
+
+/**
+ * # QueryCache
+ *
+ * Class caches async data by key and shares it between every Comp that reads it.
+ *
+ * ### Overview:
+ * Entries are kept in a `Store`, so a Comp reading a query while it renders re-renders
+ * whenever that entry changes, whichever Comp triggered the fetch. Concurrent fetches for
+ * the same key share one in-flight request.
+ *
+ * Data is fresh for `ttl` ms. Stale data is still returned but revalidated in the
+ * background when a Comp starts using the query, when the window regains focus, when the
+ * browser reconnects, or when the key is invalidated. Failed fetches keep the last good
+ * value and set `error`.
+ *
+ * `Comp.queries` is the shared cache used by `Comp.fetchQuery()`.
+ *
+ * ### Methods:
+ * - **query()**: Reads an entry, fetching it if missing or invalidated.
+ * - **fetch()**: Fetches an entry now, sharing any in-flight request.
+ * - **revalidate()**: Fetches an entry if it is stale.
+ * - **set()**: Writes data for a key directly, e.g. after a mutation.
+ * - **invalidate()**: Marks entries stale and refetches the ones in use.
+ * - **remove()**: Drops an entry.
+ *
+ * ### Example:
+ * ```js
+ * class Profile extends Comp {
+ *     createHTML() {
+ *         const { value: user, loading } = this.fetchQuery("me", () => fetchUser(), { ttl: 60_000 });
+ *         return loading ? `<p>Loading…</p>` : `<p>${user.name}</p>`;
+ *     }
+ * }
+ *
+ * await saveUser(changes);
+ * Comp.queries.invalidate("me"); // every Profile refetches and re-renders
+ * ```
+ */
+export class QueryCache {
+
+    private store_ = new Store<Record<string, FetchEntry<any>>>({});
+    private records_ = new Map<string, QueryRecord>();
+
+    constructor(private defaults_: QueryOptions = {}) {
+        if (typeof window === "undefined") return;
+
+        window.addEventListener("focus", () => this.refetchActive("refetchOnFocus"));
+        window.addEventListener("online", () => this.refetchActive("refetchOnReconnect"));
+    }
+
+    /**
+     * ## Query
+     *
+     * Reads the entry for `key`, fetching it with `loader` if it is missing or invalidated.
+     *
+     * ### Behaviour:
+     * - Returns immediately, the entry updates (and re-renders readers) as the fetch settles.
+     * - `loader` and `options` replace those registered by earlier calls for the key.
+     * - Read while rendering, the Comp is bound to the entry.
+     *
+     * ### Parameters:
+     * - **key** (`string`): The cache key.
+     * - **loader** (`() => Promise<T>`): Loads the data, rejecting on failure.
+     * - **options** (`QueryOptions`, optional): Freshness and refetch options.
+     *
+     * ### Returns:
+     * `FetchEntry<T>` - The current entry.
+     */
+    public query<T>(key: string, loader: () => Promise<T>, options: QueryOptions = {}): FetchEntry<T> {
+        const record = this.records_.get(key);
+        const merged = { ...DEFAULT_OPTIONS, ...this.defaults_, ...options };
+
+        if (record) {
+            record.loader = loader;
+            record.options = merged;
+        } else this.records_.set(key, { loader, options: merged, invalid: false });
+
+        if (!this.store_.state[key] || record?.invalid) this.fetch(key);
+
+        return this.store_.get(key);
+    }
+
+    /**
+     * ## Fetch
+     *
+     * Runs the loader for `key` now.
+     *
+     * ### Behaviour:
+     * If a fetch for the key is already in flight, its promise is returned instead. When the
+     * key is invalidated while that fetch runs, its result is kept stale and the key is
+     * fetched again once it settles (if still in use), the promise resolving to the newer entry.
+     *
+     * ### Parameters:
+     * - **key** (`string`): The cache key, registered by `query()`.
+     *
+     * ### Returns:
+     * `Promise<FetchEntry<T> | undefined>` - The settled entry, `undefined` for unknown keys.
+     */
+    public fetch<T>(key: string): Promise<FetchEntry<T> | undefined> {
+        const record = this.records_.get(key);
+        if (!record) return Promise.resolve(undefined);
+        if (record.promise) return record.promise;
+
+        const prev = this.store_.state[key];
+        const keep = prev && prev.value !== undefined && (!this.isStale(key) || record.options.staleWhileRevalidate);
+
+        record.invalid = false;
+        this.store_.set({
+            [key]: keep
+                ? { ...prev, fetching: true }
+                : { value: undefined, loading: true, error: undefined, fetching: true }
+        });
+
+        const promise = record.loader().then(
+            value => ({ value, loading: false, error: undefined, fetching: false, updatedAt: Date.now() }),
+            err => ({ ...this.store_.state[key], loading: false, error: err?.message || err, fetching: false })
+        ).then((entry): FetchEntry<any> | Promise<FetchEntry<any>> => {
+            if (this.records_.get(key) !== record) return entry;
+
+            record.promise = undefined;
+            this.store_.set({ [key]: entry });
+
+            // Invalidated mid-flight, the response may predate the change.
+            if (record.invalid && this.store_.observed(key)) return this.fetch(key).then(next => next ?? entry);
+            return entry;
+        });
+
+        record.promise = promise;
+        return promise;
+    }
+
+    /**
+     * ## Revalidate
+     *
+     * Fetches `key` if its data is stale. `Comp.fetchQuery()` calls this the first time each
+     * Comp reads a key.
+     *
+     * ### Parameters:
+     * - **key** (`string`): The cache key.
+     *
+     * ### Returns:
+     * `void`
+     */
+    public revalidate(key: string): void {
+        if (this.records_.has(key) && this.isStale(key)) this.fetch(key);
+    }
+
+    /**
+     * Returns the entry for `key` without fetching it or binding the caller to it.
+     */
+    public peek<T>(key: string): FetchEntry<T> | undefined {
+        return this.store_.state[key];
+    }
+
+    /**
+     * ## Set
+     *
+     * Writes data for a key directly, marking it fresh.
+     *
+     * ### Parameters:
+     * - **key** (`string`): The cache key.
+     * - **value** (`T | (prev) => T`): The data, or a function deriving it from the current data.
+     *
+     * ### Returns:
+     * `void`
+     *
+     * ### Example:
+     * ```js
+     * Comp.queries.set("todos", todos => [...todos, created]);
+     * ```
+     */
+    public set<T>(key: string, value: T | ((prev: T | undefined) => T)): void {
+        const prev = this.store_.state[key];
+        const next = typeof value === "function" ? (value as (prev: T | undefined) => T)(prev?.value) : value;
+
+        this.store_.set({
+            [key]: { value: next, loading: false, error: undefined, fetching: prev?.fetching ?? false, updatedAt: Date.now() }
+        });
+    }
+
+    /**
+     * ## Invalidate
+     *
+     * Marks entries stale. Entries currently rendered by a Comp refetch straight away, or
+     * once their in-flight fetch settles, the rest refetch when next queried.
+     *
+     * ### Parameters:
+     * - **key** (`string | (key) => boolean`, optional): The key, or a predicate over
+     *   keys. Invalidates everything when omitted.
+     *
+     * ### Returns:
+     * `void`
+     *
+     * ### Example:
+     * ```js
+     * Comp.queries.invalidate(key => key.startsWith("todos"));
+     * ```
+     */
+    public invalidate(key?: string | ((key: string) => boolean)): void {
+        const matches = typeof key === "function" ? key : (k: string) => key === undefined || k === key;
+
+        this.records_.forEach((record, k) => {
+            if (!matches(k)) return;
+
+            record.invalid = true;
+            if (this.store_.observed(k)) this.fetch(k);
+        });
+    }
+
+    /**
+     * ## Remove
+     *
+     * Drops an entry and its loader. Pending fetches for it are ignored.
+     *
+     * ### Parameters:
+     * - **key** (`string`): The cache key.
+     *
+     * ### Returns:
+     * `void`
+     */
+    public remove(key: string): void {
+        this.records_.delete(key);
+        this.store_.set({ [key]: undefined as unknown as FetchEntry<any> });
+    }
+
+    /**
+     * Helper method checks whether an entry's data has outlived its `ttl`.
+     */
+    private isStale(key: string): boolean {
+        const record = this.records_.get(key);
+        const updatedAt = this.store_.state[key]?.updatedAt;
+
+        if (!record || record.invalid || updatedAt === undefined) return true;
+        return Date.now() - updatedAt >= record.options.ttl;
+    }
+
+    /**
+     * Helper method revalidates stale entries that are rendered and opted in to `option`.
+     */
+    private refetchActive(option: "refetchOnFocus" | "refetchOnReconnect") {
+        this.records_.forEach((record, key) => {
+            if (record.options[option] && this.store_.observed(key)) this.revalidate(key);
+        });
+    }
+}
@@ -0,0 +1,424 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    realtime.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+/**
+ * Connection state of a `RealtimeClient`.
+ */
+export type RealtimeStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+/**
+ * Reconnect backoff, the delay doubles from `baseDelay` up to `maxDelay` between
+ * `attempts` tries (unlimited by default).
+ */
+export interface ReconnectPolicy {
+    attempts?: number;
+    baseDelay?: number;
+    maxDelay?: number;
+    jitter?: boolean;
+}
+
+/**
+ * Options for a `RealtimeClient`.
+ *
+ * - **transport**: `websocket` or `sse`, inferred from the URL scheme when omitted.
+ * - **protocols**: WebSocket sub-protocols.
+ * - **withCredentials**: Send cookies with the `EventSource` request.
+ * - **reconnect**: Backoff policy, or `false` to stay closed after a drop.
+ * - **decode**: Turns a text frame into a message, defaults to JSON with a raw string fallback.
+ * - **subscribeMessage** / **unsubscribeMessage**: Frames sent over a WebSocket when a
+ *   channel gains its first or loses its last listener.
+ */
+export interface RealtimeOptions {
+    transport?: "websocket" | "sse";
+    protocols?: string | string[];
+    withCredentials?: boolean;
+    reconnect?: ReconnectPolicy | false;
+    decode?: (data: string) => any;
+    subscribeMessage?: (channel: string) => unknown;
+    unsubscribeMessage?: (channel: string) => unknown;
+}
+
+type Listener = (data: any, message: any) => void;
+
+const DEFAULT_RECONNECT: Required<ReconnectPolicy> = {
+    attempts: Infinity,
+    baseDelay: 500,
+    maxDelay: 30000,
+    jitter: true
+};
+
+/**
+ * # RealtimeClient
+ *
+ * Class keeps a WebSocket or Server-Sent Events connection open and routes its messages
+ * to channel listeners.
+ *
+ * ### Overview:
+ * The connection opens with the first subscription (or `connect()`) and reconnects with
+ * exponential backoff when it drops, until `close()` is called or the last channel and
+ * message listener is removed. Text frames are decoded as JSON where possible.
+ *
+ * Channels work per transport:
+ * - **WebSocket**: Messages shaped `{ channel, data }` go to that channel's listeners
+ *   with `data`. Subscribing sends `{ type: "subscribe", channel }` (and `unsubscribe`
+ *   when the last listener leaves), re-sent after every reconnect.
+ * - **SSE**: Named events (`event: <channel>`) go to that channel's listeners, unnamed
+ *   events carrying a `channel` field are routed like WebSocket messages.
+ *
+ * Inside a Comp use `subscribeChannel()`, which unsubscribes on disconnect.
+ *
+ * ### Methods:
+ * - **connect()**: Opens the connection.
+ * - **subscribe()**: Listens to a channel.
+ * - **onMessage()**: Listens to every decoded message.
+ * - **onStatus()**: Listens for connection state changes.
+ * - **send()**: Sends a message over a WebSocket.
+ * - **close()**: Closes the connection and stops reconnecting.
+ *
+ * ### Example:
+ * ```js
+ * export const live = new RealtimeClient("wss://api.example.com/live");
+ *
+ * const off = live.subscribe("prices", tick => chart.push(tick));
+ * off();
+ * ```
+ */
+export class RealtimeClient {
+
+    private socket_?: WebSocket;
+    private source_?: EventSource;
+    private status_: RealtimeStatus = "idle";
+    private attempt_ = 0;
+    private timer_?: ReturnType<typeof setTimeout>;
+
+    private channels_ = new Map<string, Set<Listener>>();
+    private messageListeners_ = new Set<(message: any) => void>();
+    private statusListeners_ = new Set<(status: RealtimeStatus) => void>();
+    private sseListeners_ = new Map<string, (event: MessageEvent) => void>();
+
+    constructor(public readonly url: string, private options_: RealtimeOptions = {}) {}
+
+    /**
+     * Current connection state.
+     */
+    public get status(): RealtimeStatus {
+        return this.status_;
+    }
+
+    /**
+     * Transport in use, from the options or the URL scheme.
+     */
+    public get transport(): "websocket" | "sse" {
+        return this.options_.transport ?? (/^wss?:/i.test(this.url) ? "websocket" : "sse");
+    }
+
+    /**
+     * ## Connect
+     *
+     * Opens the connection if it isn't already open or opening.
+     *
+     * ### Returns:
+     * `RealtimeClient` - This client, for chaining.
+     */
+    public connect(): this {
+        if (this.socket_ || this.source_) return this;
+
+        clearTimeout(this.timer_);
+        this.setStatus(this.attempt_ > 0 ? "reconnecting" : "connecting");
+
+        if (this.transport === "websocket") this.openSocket();
+        else this.openSource();
+
+        return this;
+    }
+
+    /**
+     * ## Subscribe
+     *
+     * Listens to messages on a channel, connecting if needed.
+     *
+     * ### Parameters:
+     * - **channel** (`string`): The channel name.
+     * - **listener** (`(data, message) => void`): Called with the channel data and the
+     *   full decoded message.
+     *
+     * ### Returns:
+     * `() => void` - A function that removes the listener.
+     *
+     * ### Example:
+     * ```js
+     * const off = live.subscribe("orders", order => console.log(order.id));
+     * ```
+     */
+    public subscribe<T = any>(channel: string, listener: (data: T, message: any) => void): () => void {
+        let listeners = this.channels_.get(channel);
+
+        if (!listeners) {
+            listeners = new Set();
+            this.channels_.set(channel, listeners);
+            this.joinChannel(channel);
+        }
+
+        listeners.add(listener);
+        if (this.status_ === "idle" || this.status_ === "closed") this.connect();
+
+        return () => {
+            if (!listeners!.delete(listener) || listeners!.size > 0) return;
+
+            this.channels_.delete(channel);
+            this.leaveChannel(channel);
+            this.closeIfUnused();
+        };
+    }
+
+    /**
+     * ## On Message
+     *
+     * Listens to every decoded message, whatever its channel. Doesn't open the connection
+     * by itself.
+     *
+     * ### Parameters:
+     * - **listener** (`(message) => void`): Called with each message.
+     *
+     * ### Returns:
+     * `() => void` - A function that removes the listener.
+     */
+    public onMessage(listener: (message: any) => void): () => void {
+        this.messageListeners_.add(listener);
+
+        return () => {
+            if (this.messageListeners_.delete(listener)) this.closeIfUnused();
+        };
+    }
+
+    /**
+     * ## On Status
+     *
+     * Listens for connection state changes, e.g. to show an offline banner.
+     *
+     * ### Parameters:
+     * - **listener** (`(status) => void`): Called with the new state.
+     *
+     * ### Returns:
+     * `() => void` - A function that removes the listener.
+     */
+    public onStatus(listener: (status: RealtimeStatus) => void): () => void {
+        this.statusListeners_.add(listener);
+        return () => { this.statusListeners_.delete(listener); };
+    }
+
+    /**
+     * ## Send
+     *
+     * Sends a message over the WebSocket. Objects are JSON-encoded.
+     *
+     * ### Behaviour:
+     * Returns `false` without sending when the socket isn't open or the transport is SSE,
+     * which is receive-only.
+     *
+     * ### Parameters:
+     * - **message** (`unknown`): The message to send.
+     *
+     * ### Returns:
+     * `boolean` - Whether the message was sent.
+     */
+    public send(message: unknown): boolean {
+        if (!this.socket_ || this.socket_.readyState !== WebSocket.OPEN) return false;
+
+        const raw = typeof message === "string" || message instanceof Blob || message instanceof ArrayBuffer
+            || ArrayBuffer.isView(message)
+            ? message
+            : JSON.stringify(message);
+
+        this.socket_.send(raw);
+        return true;
+    }
+
+    /**
+     * ## Close
+     *
+     * Closes the connection and cancels any pending reconnect. Subscribing again
+     * reopens it.
+     *
+     * ### Returns:
+     * `void`
+     */
+    public close(): void {
+        clearTimeout(this.timer_);
+        this.attempt_ = 0;
+        this.teardown();
+        this.setStatus("closed");
+    }
+
+    /**
+     * Helper method closes the connection once no channel or message listeners are left.
+     */
+    private closeIfUnused() {
+        if (this.channels_.size > 0 || this.messageListeners_.size > 0) return;
+        if (this.status_ !== "idle" && this.status_ !== "closed") this.close();
+    }
+
+    /**
+     * Helper method opens a WebSocket and wires its events.
+     */
+    private openSocket() {
+        const socket = new WebSocket(this.url, this.options_.protocols);
+        this.socket_ = socket;
+
+        socket.onopen = () => {
+            this.attempt_ = 0;
+            this.setStatus("open");
+            for (const channel of this.channels_.keys()) this.joinChannel(channel);
+        };
+        socket.onmessage = event => this.receive(event.data);
+        socket.onclose = () => {
+            if (this.socket_ === socket) this.dropped();
+        };
+    }
+
+    /**
+     * Helper method opens an EventSource and wires its events.
+     *
+     * The browser's own retry is replaced by the client's backoff, so the source is
+     * closed on error.
+     */
+    private openSource() {
+        const source = new EventSource(this.url, { withCredentials: !!this.options_.withCredentials });
+        this.source_ = source;
+        this.sseListeners_.clear();
+
+        source.onopen = () => {
+            this.attempt_ = 0;
+            this.setStatus("open");
+        };
+        source.onmessage = event => this.receive(event.data);
+        source.onerror = () => {
+            if (this.source_ !== source) return;
+
+            source.close();
+            this.dropped();
+        };
+
+        for (const channel of this.channels_.keys()) this.joinChannel(channel);
+    }
+
+    /**
+     * Helper method starts receiving a channel on the open connection.
+     */
+    private joinChannel(channel: string) {
+        if (this.source_ && !this.sseListeners_.has(channel)) {
+            const listener = (event: MessageEvent) => this.receive(event.data, channel);
+            this.sseListeners_.set(channel, listener);
+            this.source_.addEventListener(channel, listener);
+        }
+
+        const subscribe = this.options_.subscribeMessage ?? (name => ({ type: "subscribe", channel: name }));
+        this.send(subscribe(channel));
+    }
+
+    /**
+     * Helper method stops receiving a channel on the open connection.
+     */
+    private leaveChannel(channel: string) {
+        const listener = this.sseListeners_.get(channel);
+        if (listener) {
+            this.source_?.removeEventListener(channel, listener);
+            this.sseListeners_.delete(channel);
+        }
+
+        const unsubscribe = this.options_.unsubscribeMessage ?? (name => ({ type: "unsubscribe", channel: name }));
+        this.send(unsubscribe(channel));
+    }
+
+    /**
+     * Helper method decodes a frame and routes it to message and channel listeners.
+     */
+    private receive(raw: unknown, channel?: string) {
+        const message = typeof raw === "string" ? this.decode(raw) : raw;
+        this.messageListeners_.forEach(listener => listener(message));
+
+        const routed = channel === undefined && message && typeof message === "object"
+            && typeof (message as any).channel === "string";
+
+        if (channel !== undefined) {
+            this.channels_.get(channel)?.forEach(listener => listener(message, message));
+        } else if (routed) {
+            const data = "data" in message ? message.data : message;
+            this.channels_.get(message.channel)?.forEach(listener => listener(data, message));
+        }
+    }
+
+    /**
+     * Helper method decodes a text frame, JSON by default.
+     */
+    private decode(data: string): any {
+        if (this.options_.decode) return this.options_.decode(data);
+
+        try {
+            return JSON.parse(data);
+        } catch {
+            return data;
+        }
+    }
+
+    /**
+     * Helper method schedules a reconnect after an unexpected drop, or gives up once the
+     * policy's attempts run out.
+     */
+    private dropped() {
+        this.teardown();
+
+        const policy = this.options_.reconnect === false
+            ? undefined
+            : { ...DEFAULT_RECONNECT, ...this.options_.reconnect };
+
+        if (!policy || this.attempt_ >= policy.attempts) {
+            this.attempt_ = 0;
+            return this.setStatus("closed");
+        }
+
+        this.attempt_++;
+        this.setStatus("reconnecting");
+
+        let delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (this.attempt_ - 1));
+        if (policy.jitter) delay = Math.random() * delay;
+
+        this.timer_ = setTimeout(() => this.connect(), delay);
+    }
+
+    /**
+     * Helper method detaches and closes the current socket or source.
+     */
+    private teardown() {
+        const socket = this.socket_;
+        const source = this.source_;
+
+        this.socket_ = undefined;
+        this.source_ = undefined;
+        this.sseListeners_.clear();
+
+        if (socket) {
+            socket.onopen = socket.onmessage = socket.onclose = null;
+            if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) socket.close();
+        }
+        source?.close();
+    }
+
+    /**
+     * Helper method updates the status and notifies listeners on change.
+     */
+    private setStatus(status: RealtimeStatus) {
+        if (this.status_ === status) return;
+
+        this.status_ = status;
+        this.statusListeners_.forEach(listener => listener(status));
+    }
+}
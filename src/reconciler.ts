@@ -0,0 +1,196 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    reconciler.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+/**
+ * # Reconciler
+ *
+ * Class patches a live DOM tree so that it matches freshly rendered HTML.
+ *
+ * ### Overview:
+ * Instead of replacing `shadowRoot.innerHTML`, the new markup is parsed into an inert
+ * `<template>` and compared node by node against the live tree. Only changed text,
+ * attributes and nodes are touched, so focus, caret position, scroll offsets, form
+ * values and listeners wired in `afterRender()` survive a re-render.
+ *
+ * Repeated children can be given a `key` attribute, keyed nodes are matched by key
+ * rather than position so reordering a list moves the existing elements.
+ *
+ * ### Methods:
+ * - **patch()**: Reconciles a root node against an HTML string.
+ *
+ * ### Example:
+ * ```js
+ * const reconciler = new Reconciler();
+ * reconciler.patch(this.shadowRoot, `<ul>${items.map(i => `<li key="${i.id}">${i.name}</li>`).join("")}</ul>`);
+ * ```
+ */
+export class Reconciler {
+
+    /**
+     * ## Patch
+     *
+     * Reconciles the children of `root` against the supplied HTML.
+     *
+     * ### Behaviour:
+     * - Parses `html` into a detached `<template>`.
+     * - Walks both trees, reusing nodes with a matching `key` attribute first and
+     *   falling back to position for unkeyed nodes of the same type.
+     * - Updates text, comments and attributes in place, inserts new nodes and removes
+     *   nodes that no longer exist.
+     *
+     * ### Parameters:
+     * - **root** (`ParentNode & Node`): The live node to patch, usually a shadow root.
+     * - **html** (`string`): The new markup.
+     *
+     * ### Returns:
+     * `void`
+     */
+    public patch(root: ParentNode & Node, html: string): void {
+        const template = document.createElement("template");
+        template.innerHTML = html;
+
+        this.patchChildren(root, template.content);
+    }
+
+    /**
+     * Method reconciles the child list of `parent` against `next`.
+     *
+     * Keyed children are looked up by key, unkeyed children are consumed in order, matching
+     * the next old node of the same type. Nodes from `next` are moved into the live tree
+     * when no match is found.
+     *
+     * Old nodes that can no longer match (skipped unkeyed nodes and keys missing from
+     * `next`) are removed before placing each child, so matched nodes only move on a real
+     * reorder. Moving a node blurs it and reconnects child Comps.
+     */
+    private patchChildren(parent: Node, next: Node): void {
+        const oldKeyed = new Map<string, Node>();
+        const oldUnkeyed: Node[] = [];
+
+        for (const child of Array.from(parent.childNodes)) {
+            const key = this.keyOf(child);
+            if (key !== null && !oldKeyed.has(key)) oldKeyed.set(key, child);
+            else oldUnkeyed.push(child);
+        }
+
+        const nextKeys = new Set(Array.from(next.childNodes, child => this.keyOf(child)));
+        const discarded = new Set<Node>();
+        oldKeyed.forEach((child, key) => { if (!nextKeys.has(key)) discarded.add(child); });
+
+        const used = new Set<Node>();
+        let unkeyedIndex = 0;
+        let index = 0;
+
+        for (const newChild of Array.from(next.childNodes)) {
+            const key = this.keyOf(newChild);
+            let match: Node | undefined;
+
+            if (key !== null) {
+                const candidate = oldKeyed.get(key);
+                if (candidate && this.sameType(candidate, newChild)) match = candidate;
+            } else {
+                // Skip old nodes of another type (e.g. a removed message before an input)
+                // rather than giving up, so later siblings keep their state.
+                for (let i = unkeyedIndex; i < oldUnkeyed.length; i++) {
+                    if (!this.sameType(oldUnkeyed[i], newChild)) continue;
+
+                    match = oldUnkeyed[i];
+                    for (let j = unkeyedIndex; j < i; j++) discarded.add(oldUnkeyed[j]);
+                    unkeyedIndex = i + 1;
+                    break;
+                }
+            }
+
+            let current = parent.childNodes[index] ?? null;
+            while (current && discarded.has(current) && !used.has(current)) {
+                parent.removeChild(current);
+                current = parent.childNodes[index] ?? null;
+            }
+
+            if (match) {
+                used.add(match);
+                this.patchNode(match, newChild);
+                if (match !== current) parent.insertBefore(match, current);
+            } else {
+                parent.insertBefore(newChild, current);
+                used.add(newChild);
+            }
+
+            index++;
+        }
+
+        for (const child of Array.from(parent.childNodes)) {
+            if (!used.has(child)) parent.removeChild(child);
+        }
+    }
+
+    /**
+     * Method brings a single matched node in line with its replacement.
+     */
+    private patchNode(node: Node, next: Node): void {
+        if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.COMMENT_NODE) {
+            if (node.nodeValue !== next.nodeValue) node.nodeValue = next.nodeValue;
+            return;
+        }
+
+        if (node instanceof Element && next instanceof Element) {
+            this.patchAttributes(node, next);
+            this.patchChildren(node, next);
+        }
+    }
+
+    /**
+     * Method removes stale attributes and writes changed ones.
+     *
+     * Form controls keep their live `value`/`checked` state unless the template value
+     * itself changed, in which case the property is updated to match.
+     */
+    private patchAttributes(el: Element, next: Element): void {
+        for (const attr of Array.from(el.attributes)) {
+            if (!next.hasAttribute(attr.name)) {
+                el.removeAttribute(attr.name);
+                this.syncFormState(el, attr.name, null);
+            }
+        }
+
+        for (const attr of Array.from(next.attributes)) {
+            if (el.getAttribute(attr.name) === attr.value) continue;
+            el.setAttribute(attr.name, attr.value);
+            this.syncFormState(el, attr.name, attr.value);
+        }
+    }
+
+    /**
+     * Helper method mirrors an attribute change onto the live form control property.
+     */
+    private syncFormState(el: Element, name: string, value: string | null): void {
+        if (el instanceof HTMLInputElement) {
+            if (name === "value") el.value = value ?? "";
+            else if (name === "checked") el.checked = value !== null;
+        } else if (el instanceof HTMLOptionElement && name === "selected") {
+            el.selected = value !== null;
+        }
+    }
+
+    /**
+     * Helper method returns the `key` attribute of an element, or `null`.
+     */
+    private keyOf(node: Node): string | null {
+        return node instanceof Element ? node.getAttribute("key") : null;
+    }
+
+    /**
+     * Helper method checks two nodes can be patched rather than replaced.
+     */
+    private sameType(a: Node, b: Node): boolean {
+        return a.nodeType === b.nodeType && a.nodeName === b.nodeName;
+    }
+}
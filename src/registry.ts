@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    registry.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+type ScopedDefinition = {
+    ctor: CustomElementConstructor;
+    tag: string;
+};
+
+/**
+ * # CompRegistry
+ *
+ * Class provides a custom element registry scoped to a host Comp.
+ *
+ * ### Overview:
+ * Separate bundles on the same page share one global `customElements` registry, so two
+ * versions of a component can't both be defined under the same tag. A `CompRegistry`
+ * lets a host Comp define its children under local tag names. Each definition is
+ * registered globally under a unique tag (a subclass is defined, so the same class can be
+ * scoped by several registries) and the host's rendered HTML is rewritten to use it.
+ *
+ * Lookups that miss the registry fall back to its parent registry, then to the global
+ * registry, so undeclared tags render as normal.
+ *
+ * Because tags are rewritten, query scoped children through `tagFor()` rather than the
+ * local tag name, e.g. `this.query(registry.tagFor("ui-button"))`.
+ *
+ * ### Methods:
+ * - **define()**: Defines a component under a local tag.
+ * - **get()**: Looks up a constructor by local tag.
+ * - **tagFor()**: Returns the global tag a local tag resolves to.
+ * - **transform()**: Rewrites local tags in an HTML string.
+ *
+ * ### Example:
+ * ```js
+ * import { ButtonV2 } from "ui-kit-v2";
+ *
+ * class Checkout extends Comp {
+ *     static registry = new CompRegistry().define("ui-button", ButtonV2);
+ *
+ *     createHTML() { return `<ui-button>Pay</ui-button>`; }
+ * }
+ * ```
+ */
+export class CompRegistry {
+
+    private static count_ = 0;
+    private definitions_ = new Map<string, ScopedDefinition>();
+
+    constructor(private parent_?: CompRegistry) {}
+
+    /**
+     * ## Define
+     *
+     * Defines a component under a tag local to this registry.
+     *
+     * ### Behaviour:
+     * - Registers a subclass of `ctor` globally under a unique tag derived from `tag`.
+     * - Local tags may shadow global tags or tags defined by a parent registry.
+     * - Throws if `tag` is already defined in this registry or is not a valid tag name.
+     *
+     * ### Parameters:
+     * - **tag** (`string`): The local tag name used in the host's HTML.
+     * - **ctor** (`CustomElementConstructor`): The component class.
+     *
+     * ### Returns:
+     * `CompRegistry` - This registry, for chaining.
+     *
+     * ### Example:
+     * ```js
+     * const registry = new CompRegistry()
+     *     .define("ui-button", ButtonV2)
+     *     .define("ui-input", InputV2);
+     * ```
+     */
+    public define(tag: string, ctor: CustomElementConstructor): this {
+        if (!/^[a-z][a-z0-9._]*-[a-z0-9._-]*$/.test(tag)) {
+            throw new Error(`Invalid tag name "${tag}", it must be lowercase and contain a hyphen.`);
+        }
+        if (this.definitions_.has(tag)) throw new Error(`Tag <${tag}> is already defined in this registry.`);
+
+        let scoped: string;
+        do scoped = `${tag}-scoped-${++CompRegistry.count_}`;
+        while (customElements.get(scoped));
+
+        const Scoped = class extends (ctor as any) {} as unknown as CustomElementConstructor;
+        customElements.define(scoped, Scoped);
+
+        this.definitions_.set(tag, { ctor, tag: scoped });
+        return this;
+    }
+
+    /**
+     * ## Get
+     *
+     * Looks up the constructor for a tag.
+     *
+     * ### Parameters:
+     * - **tag** (`string`): The local tag name.
+     *
+     * ### Returns:
+     * `CustomElementConstructor | undefined` - From this registry, a parent registry or
+     * the global registry.
+     */
+    public get(tag: string): CustomElementConstructor | undefined {
+        return this.lookup(tag)?.ctor ?? customElements.get(tag);
+    }
+
+    /**
+     * ## Tag For
+     *
+     * Returns the tag a local tag name resolves to in the DOM.
+     *
+     * ### Parameters:
+     * - **tag** (`string`): The local tag name.
+     *
+     * ### Returns:
+     * `string` - The unique scoped tag, or `tag` itself if it isn't scoped.
+     */
+    public tagFor(tag: string): string {
+        return this.lookup(tag)?.tag ?? tag;
+    }
+
+    /**
+     * ## Transform
+     *
+     * Rewrites opening and closing tags in an HTML string to their scoped names.
+     *
+     * ### Parameters:
+     * - **html** (`string`): Markup using local tag names.
+     *
+     * ### Returns:
+     * `string` - Markup using scoped tag names.
+     */
+    public transform(html: string): string {
+        return html.replace(
+            /<(\/?)([a-z][a-z0-9._]*-[a-z0-9._-]*)(?=[\s/>])/g,
+            (match, slash, tag) => {
+                const definition = this.lookup(tag);
+                return definition ? `<${slash}${definition.tag}` : match;
+            }
+        );
+    }
+
+    /**
+     * Helper method resolves a local tag through this registry and its parents.
+     */
+    private lookup(tag: string): ScopedDefinition | undefined {
+        return this.definitions_.get(tag) ?? this.parent_?.lookup(tag);
+    }
+}
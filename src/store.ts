@@ -0,0 +1,257 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    store.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+type Collector = (store: Store<any>, key: PropertyKey) => void;
+
+/**
+ * # Store
+ *
+ * Class holds reactive state that can be shared by any number of Comps.
+ *
+ * ### Overview:
+ * A store is created once with `createStore(initial)` and imported wherever it is needed.
+ * Keys read through `get()` or `select()` while a Comp renders are tracked, and the Comp
+ * re-renders when one of those keys changes. Bindings are released when the Comp is
+ * disconnected.
+ *
+ * Code outside components can react to changes with `subscribe()`.
+ *
+ * ### Properties:
+ * - **state** (`Readonly<S>`): Snapshot of the current state (not tracked).
+ *
+ * ### Methods:
+ * - **get()**: Reads a key.
+ * - **set()**: Shallow-merges a patch into the state.
+ * - **select()**: Derives a value from the state.
+ * - **subscribe()**: Listens for changes to the whole state or a selected value.
+ *
+ * ### Example:
+ * ```js
+ * export const cart = createStore({ items: [], open: false });
+ *
+ * class CartBadge extends Comp {
+ *     createHTML() { return `<span>${cart.select(s => s.items.length)}</span>`; }
+ * }
+ *
+ * cart.set(s => ({ items: [...s.items, item] })); // CartBadge re-renders
+ * ```
+ */
+export class Store<S extends object> {
+
+    private static collector_?: Collector;
+
+    private state_: S;
+    private listeners_ = new Set<(state: S, prev: S) => void>();
+    private keyListeners_ = new Map<keyof S, Set<() => void>>();
+
+    constructor(initial: S) {
+        this.state_ = { ...initial };
+    }
+
+    /**
+     * Runs `fn`, reporting every store key read during it to `collector`.
+     *
+     * Used by `Comp` to find out which keys a render depends on.
+     */
+    public static track<T>(collector: Collector, fn: () => T): T {
+        const parent = Store.collector_;
+        Store.collector_ = collector;
+
+        try {
+            return fn();
+        } finally {
+            Store.collector_ = parent;
+        }
+    }
+
+    /**
+     * Current state snapshot. Reads through `state` are not tracked.
+     */
+    public get state(): Readonly<S> {
+        return this.state_;
+    }
+
+    /**
+     * ## Get
+     *
+     * Reads a single key from the store.
+     *
+     * ### Behaviour:
+     * When called while a Comp renders, the Comp is bound to the key and re-renders
+     * when it changes.
+     *
+     * ### Parameters:
+     * - **key** (`keyof S`): The key to read.
+     *
+     * ### Returns:
+     * `S[K]` - The current value.
+     *
+     * ### Example:
+     * ```js
+     * createHTML() { return `<p>Hello ${session.get("user").name}</p>`; }
+     * ```
+     */
+    public get<K extends keyof S>(key: K): S[K] {
+        Store.collector_?.(this, key);
+        return this.state_[key];
+    }
+
+    /**
+     * ## Set
+     *
+     * Shallow-merges a patch into the state and notifies listeners of changed keys.
+     *
+     * ### Parameters:
+     * - **patch** (`Partial<S> | (state) => Partial<S>`): The values to merge, or a
+     *   function receiving the current state and returning them.
+     *
+     * ### Returns:
+     * `void`
+     *
+     * ### Example:
+     * ```js
+     * cart.set({ open: true });
+     * cart.set(s => ({ count: s.count + 1 }));
+     * ```
+     */
+    public set(patch: Partial<S> | ((state: Readonly<S>) => Partial<S>)): void {
+        const values = typeof patch === "function" ? patch(this.state_) : patch;
+        const changed = (Object.keys(values) as Array<keyof S>)
+            .filter(key => !Object.is(this.state_[key], values[key]));
+
+        if (changed.length === 0) return;
+
+        const prev = this.state_;
+        this.state_ = { ...prev, ...values };
+
+        for (const key of changed) this.keyListeners_.get(key)?.forEach(listener => listener());
+        this.listeners_.forEach(listener => listener(this.state_, prev));
+    }
+
+    /**
+     * ## Select
+     *
+     * Derives a value from the state.
+     *
+     * ### Behaviour:
+     * Top-level keys read by the selector are tracked like `get()`, so a Comp calling
+     * `select()` while rendering only re-renders when those keys change.
+     *
+     * ### Parameters:
+     * - **selector** (`(state) => R`): Function deriving the value.
+     *
+     * ### Returns:
+     * `R` - The selected value.
+     *
+     * ### Example:
+     * ```js
+     * const total = cart.select(s => s.items.reduce((sum, i) => sum + i.price, 0));
+     * ```
+     */
+    public select<R>(selector: (state: Readonly<S>) => R): R {
+        if (!Store.collector_) return selector(this.state_);
+
+        const tracked = new Proxy(this.state_, {
+            get: (target, key) => {
+                Store.collector_?.(this, key);
+                return (target as any)[key];
+            }
+        });
+
+        return selector(tracked);
+    }
+
+    /**
+     * ## Subscribe
+     *
+     * Listens for changes from outside a component.
+     *
+     * ### Behaviour:
+     * - With a single listener, it is called after every change with the new and previous state.
+     * - With a selector, the listener is only called when the selected value changes.
+     *
+     * ### Parameters:
+     * - **selector** (`(state) => R`, optional): Value to watch.
+     * - **listener** (`(next, prev) => void`): Called on change.
+     *
+     * ### Returns:
+     * `() => void` - A function that removes the listener.
+     *
+     * ### Example:
+     * ```js
+     * const off = cart.subscribe(s => s.items.length, count => badge.textContent = String(count));
+     * off();
+     * ```
+     */
+    public subscribe(listener: (state: Readonly<S>, prev: Readonly<S>) => void): () => void;
+    public subscribe<R>(selector: (state: Readonly<S>) => R, listener: (next: R, prev: R) => void): () => void;
+    public subscribe<R>(
+        selectorOrListener: ((state: Readonly<S>) => R) | ((state: Readonly<S>, prev: Readonly<S>) => void),
+        listener?: (next: R, prev: R) => void
+    ): () => void {
+        let callback: (state: S, prev: S) => void;
+
+        if (listener) {
+            const selector = selectorOrListener as (state: Readonly<S>) => R;
+            let current = selector(this.state_);
+
+            callback = state => {
+                const next = selector(state);
+                if (Object.is(next, current)) return;
+
+                const prev = current;
+                current = next;
+                listener(next, prev);
+            };
+        } else callback = selectorOrListener as (state: S, prev: S) => void;
+
+        this.listeners_.add(callback);
+        return () => { this.listeners_.delete(callback); };
+    }
+
+    /**
+     * Returns whether anything is listening for changes to `key`, i.e. a Comp rendered it.
+     */
+    public observed(key: keyof S): boolean {
+        return (this.keyListeners_.get(key)?.size ?? 0) > 0;
+    }
+
+    /**
+     * Registers a callback for changes to a single key, used by `Comp` bindings.
+     */
+    public onKey(key: keyof S, callback: () => void): () => void {
+        const listeners = this.keyListeners_.get(key) ?? new Set();
+        listeners.add(callback);
+        this.keyListeners_.set(key, listeners);
+
+        return () => { listeners.delete(callback); };
+    }
+}
+
+/**
+ * ## createStore
+ *
+ * Creates a shared reactive store.
+ *
+ * ### Parameters:
+ * - **initial** (`S`): The initial state object.
+ *
+ * ### Returns:
+ * `Store<S>` - The store.
+ *
+ * ### Example:
+ * ```js
+ * export const session = createStore({ user: null, theme: "light" });
+ * ```
+ */
+export function createStore<S extends object>(initial: S): Store<S> {
+    return new Store(initial);
+}
@@ -0,0 +1,124 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    stylesheets.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+/**
+ * # StyleSheets
+ *
+ * Class caches constructable `CSSStyleSheet` objects so they can be shared between
+ * component instances through `shadowRoot.adoptedStyleSheets`.
+ *
+ * ### Overview:
+ * Compiling CSS once per component class and adopting the same sheet in every instance
+ * avoids parsing a new `<style>` block each render. Sheets are cached by their CSS text,
+ * shared sheets (such as the default reset/host styles) are cached globally and
+ * component sheets are cached per class, keeping only the most recently used variants.
+ *
+ * ### Properties:
+ * - **supported** (`boolean`): Whether constructable sheets can be adopted in this browser.
+ *
+ * ### Methods:
+ * - **shared()**: Returns a globally cached sheet for the given CSS.
+ * - **forClass()**: Returns a sheet cached against a component class.
+ *
+ * ### Example:
+ * ```js
+ * const sheets = new StyleSheets();
+ * if (StyleSheets.supported) {
+ *     root.adoptedStyleSheets = [sheets.shared(base), sheets.forClass(MyComp, css)];
+ * }
+ * ```
+ */
+export class StyleSheets {
+
+    private static shared_ = new Map<string, CSSStyleSheet>();
+    private static classes_ = new WeakMap<Function, Map<string, CSSStyleSheet>>();
+
+    /**
+     * How many CSS variants each class keeps cached, older ones are dropped first.
+     */
+    public static classLimit = 16;
+
+    /**
+     * Whether the browser supports constructable stylesheets and `adoptedStyleSheets`.
+     */
+    public static get supported(): boolean {
+        return typeof CSSStyleSheet !== "undefined"
+            && typeof ShadowRoot !== "undefined"
+            && "replaceSync" in CSSStyleSheet.prototype
+            && "adoptedStyleSheets" in ShadowRoot.prototype;
+    }
+
+    /**
+     * ## Shared
+     *
+     * Returns a sheet shared by every component for the given CSS text.
+     *
+     * ### Parameters:
+     * - **css** (`string`): The CSS text to compile.
+     *
+     * ### Returns:
+     * `CSSStyleSheet` - The cached sheet, compiled on first use.
+     */
+    public shared(css: string): CSSStyleSheet {
+        return this.lookup(StyleSheets.shared_, css);
+    }
+
+    /**
+     * ## For Class
+     *
+     * Returns a sheet cached against a component class for the given CSS text.
+     *
+     * ### Behaviour:
+     * Instances of the same class producing the same CSS share a single sheet. A class
+     * whose CSS changes between renders gets a new sheet for each distinct output, only
+     * the last `StyleSheets.classLimit` used are kept, so CSS built from changing values
+     * doesn't grow the cache forever. Instances still adopting an evicted sheet keep it.
+     *
+     * ### Parameters:
+     * - **owner** (`Function`): The component constructor.
+     * - **css** (`string`): The CSS text to compile.
+     *
+     * ### Returns:
+     * `CSSStyleSheet` - The cached sheet, compiled on first use.
+     */
+    public forClass(owner: Function, css: string): CSSStyleSheet {
+        let cache = StyleSheets.classes_.get(owner);
+
+        if (!cache) {
+            cache = new Map();
+            StyleSheets.classes_.set(owner, cache);
+        }
+
+        const sheet = this.lookup(cache, css);
+
+        // Re-insert to mark the variant as recently used, then evict the oldest.
+        cache.delete(css);
+        cache.set(css, sheet);
+        if (cache.size > StyleSheets.classLimit) cache.delete(cache.keys().next().value!);
+
+        return sheet;
+    }
+
+    /**
+     * Helper method returns a cached sheet or compiles and stores a new one.
+     */
+    private lookup(cache: Map<string, CSSStyleSheet>, css: string): CSSStyleSheet {
+        let sheet = cache.get(css);
+
+        if (!sheet) {
+            sheet = new CSSStyleSheet();
+            sheet.replaceSync(css);
+            cache.set(css, sheet);
+        }
+
+        return sheet;
+    }
+}
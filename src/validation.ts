@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    validation.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+/**
+ * Result of a custom validator: `true`, `null` or `undefined` when valid, `false` or an
+ * error message when not.
+ */
+export type ValidationOutcome = boolean | string | null | undefined;
+
+/**
+ * Rules for a single form field.
+ *
+ * `validate` receives every form value, so it also covers cross-field rules such as
+ * confirming a password.
+ */
+export interface FieldRules {
+    required?: boolean | string;
+    min?: number;
+    max?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: RegExp;
+    email?: boolean;
+    validate?: (value: any, values: Record<string, any>) => ValidationOutcome | Promise<ValidationOutcome>;
+    message?: string;
+}
+
+/**
+ * Validation schema for a form, keyed by field name.
+ */
+export type ValidationSchema = Record<string, FieldRules>;
+
+/**
+ * # Validator
+ *
+ * Class validates form values against a declarative schema.
+ *
+ * ### Overview:
+ * Each field lists its rules (`required`, `min`/`max`, `minLength`/`maxLength`,
+ * `pattern`, `email`) plus an optional, possibly async, `validate` function. Rules run in
+ * that order and the first failure becomes the field's error message. Empty optional
+ * fields are skipped.
+ *
+ * `Comp.submitForm()` and `Comp.validate()` use this class and expose the errors through
+ * the `<field>_error` props.
+ *
+ * ### Methods:
+ * - **validate()**: Validates a set of values, resolving to the field errors.
+ *
+ * ### Example:
+ * ```js
+ * const validator = new Validator({
+ *     email:    { required: true, email: true },
+ *     password: { required: true, minLength: 8 },
+ *     confirm:  { validate: (v, all) => v === all.password || "Passwords don't match" },
+ *     username: { validate: async v => (await isFree(v)) || "Username is taken" }
+ * });
+ *
+ * const errors = await validator.validate({ email: "jay@", password: "hunter2" });
+ * // { email: "Enter a valid email address.", password: "Must be at least 8 characters." }
+ * ```
+ */
+export class Validator {
+
+    private static EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+    constructor(private schema: ValidationSchema) {}
+
+    /**
+     * ## Validate
+     *
+     * Validates every field in the schema.
+     *
+     * ### Parameters:
+     * - **values** (`Record<string, any>`): The form values, keyed by field name.
+     *
+     * ### Returns:
+     * `Promise<Record<string, string>>` - Error messages for invalid fields, empty when valid.
+     */
+    public async validate(values: Record<string, any>): Promise<Record<string, string>> {
+        const errors: Record<string, string> = {};
+
+        await Promise.all(Object.entries(this.schema).map(async ([field, rules]) => {
+            const error = await this.check(rules, values[field], values);
+            if (error) errors[field] = error;
+        }));
+
+        return errors;
+    }
+
+    /**
+     * Helper method runs a field's rules in order, returning the first error message.
+     */
+    private async check(rules: FieldRules, value: any, values: Record<string, any>): Promise<string | undefined> {
+        const empty = value === undefined || value === null || value === ""
+            || (Array.isArray(value) && value.length === 0);
+
+        if (empty) {
+            if (!rules.required) return undefined;
+            return typeof rules.required === "string" ? rules.required : rules.message ?? "This field is required.";
+        }
+
+        const length = typeof value === "string" || Array.isArray(value) ? value.length : undefined;
+        const fail = (fallback: string) => rules.message ?? fallback;
+
+        if (rules.min !== undefined && Number(value) < rules.min) return fail(`Must be at least ${rules.min}.`);
+        if (rules.max !== undefined && Number(value) > rules.max) return fail(`Must be at most ${rules.max}.`);
+
+        if (rules.minLength !== undefined && length !== undefined && length < rules.minLength) {
+            return fail(`Must be at least ${rules.minLength} characters.`);
+        }
+        if (rules.maxLength !== undefined && length !== undefined && length > rules.maxLength) {
+            return fail(`Must be at most ${rules.maxLength} characters.`);
+        }
+
+        if (rules.pattern && !rules.pattern.test(String(value))) return fail("Invalid format.");
+        if (rules.email && !Validator.EMAIL.test(String(value))) return fail("Enter a valid email address.");
+
+        if (rules.validate) {
+            const outcome = await rules.validate(value, values);
+            if (outcome === false) return fail("Invalid value.");
+            if (typeof outcome === "string") return outcome;
+        }
+
+        return undefined;
+    }
+}
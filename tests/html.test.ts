@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    html.test.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { html, unsafeHTML } from "../src/html.js";
+
+describe("html", () => {
+    it("escapes interpolated text", () => {
+        const name = `<img src=x onerror="alert(1)">`;
+        assert.equal(html`<p>${name}</p>`.render(), `<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>`);
+    });
+
+    it("inserts nested templates, arrays and unsafeHTML as markup", () => {
+        const items = ["a", "b"];
+        const result = html`<ul>${items.map(item => html`<li>${item}</li>`)}</ul>${unsafeHTML("<hr>")}`;
+
+        assert.equal(result.render(), `<ul><li>a</li><li>b</li></ul><hr>`);
+    });
+
+    it("renders null, undefined and false as nothing", () => {
+        assert.equal(html`<p>${null}${undefined}${false}</p>`.render(), `<p></p>`);
+    });
+
+    it("keeps quoted attribute values quoted", () => {
+        assert.equal(html`<input value="${`" autofocus x="`}">`.render(), `<input value="&quot; autofocus x=&quot;">`);
+        assert.equal(html`<input value='${"' x='"}'>`.render(), `<input value='&#39; x=&#39;'>`);
+    });
+
+    it("quotes values in unquoted attribute positions", () => {
+        const value = "x onmouseover=alert(1)";
+        assert.equal(html`<input value=${value} name=q>`.render(), `<input value="x onmouseover=alert(1)" name=q>`);
+    });
+
+    it("throws for values inside a tag that are not attribute values", () => {
+        assert.throws(() => html`<input ${"x onfocus=alert(1) autofocus"}>`.render(), /inside a tag/);
+        assert.throws(() => html`<div class=a-${"b onclick=alert(1)"}></div>`.render(), /inside a tag/);
+    });
+
+    it("tracks context across values and nested tags", () => {
+        const result = html`<p title="${"a>b"}">${"<i>"}</p><input value=${"v"}>`;
+        assert.equal(result.render(), `<p title="a&gt;b">&lt;i&gt;</p><input value="v">`);
+    });
+
+    it("binds event handlers to on-* attributes", () => {
+        const handlers: Function[] = [];
+        const onClick = () => {};
+        const onInput = () => {};
+
+        const out = html`<button @click=${onClick}>Go</button><input @Input="${onInput}">`.render(handlers);
+
+        assert.equal(out, `<button on-click="@0">Go</button><input on-input="@1">`);
+        assert.deepEqual(handlers, [onClick, onInput]);
+    });
+});
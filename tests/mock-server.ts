@@ -0,0 +1,161 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    mock-server.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+type Handler = ((event: any) => void) | null;
+
+/**
+ * In-process stand-in for a realtime server. `MockWebSocket` and `MockEventSource`
+ * connect to it, and tests drive the connections from the server side.
+ */
+export class MockServer {
+    public sockets: MockWebSocket[] = [];
+    public sources: MockEventSource[] = [];
+
+    /**
+     * The most recent WebSocket or EventSource connection.
+     */
+    public get latest(): MockWebSocket | MockEventSource | undefined {
+        return this.sockets.at(-1) ?? this.sources.at(-1);
+    }
+
+    /**
+     * Installs the mocks as the global `WebSocket` and `EventSource`, returning a restore function.
+     */
+    public install(): () => void {
+        const server = this;
+        const globals = globalThis as any;
+        const previous = { WebSocket: globals.WebSocket, EventSource: globals.EventSource };
+
+        globals.WebSocket = class extends MockWebSocket {
+            constructor(url: string, protocols?: string | string[]) {
+                super(url, protocols);
+                server.sockets.push(this);
+            }
+        };
+        globals.EventSource = class extends MockEventSource {
+            constructor(url: string, init?: { withCredentials?: boolean }) {
+                super(url, init);
+                server.sources.push(this);
+            }
+        };
+
+        return () => Object.assign(globals, previous);
+    }
+}
+
+export class MockWebSocket {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+
+    public readyState = MockWebSocket.CONNECTING;
+    public sent: unknown[] = [];
+
+    public onopen: Handler = null;
+    public onmessage: Handler = null;
+    public onclose: Handler = null;
+
+    constructor(public url: string, public protocols?: string | string[]) {}
+
+    /**
+     * Frames the client sent, JSON-decoded where possible.
+     */
+    public get frames(): unknown[] {
+        return this.sent.map(frame => {
+            try {
+                return JSON.parse(String(frame));
+            } catch {
+                return frame;
+            }
+        });
+    }
+
+    public send(data: unknown) {
+        if (this.readyState !== MockWebSocket.OPEN) throw new Error("Socket is not open");
+        this.sent.push(data);
+    }
+
+    public close() {
+        this.readyState = MockWebSocket.CLOSED;
+    }
+
+    /** Server side: accepts the connection. */
+    public accept() {
+        this.readyState = MockWebSocket.OPEN;
+        this.onopen?.({});
+    }
+
+    /** Server side: pushes a frame, objects are JSON-encoded. */
+    public push(data: unknown) {
+        this.onmessage?.({ data: typeof data === "string" ? data : JSON.stringify(data) });
+    }
+
+    /** Server side: drops the connection. */
+    public drop() {
+        this.readyState = MockWebSocket.CLOSED;
+        this.onclose?.({ code: 1006 });
+    }
+}
+
+export class MockEventSource {
+    public closed = false;
+    public withCredentials: boolean;
+
+    public onopen: Handler = null;
+    public onmessage: Handler = null;
+    public onerror: Handler = null;
+
+    private listeners_ = new Map<string, Set<(event: any) => void>>();
+
+    constructor(public url: string, init?: { withCredentials?: boolean }) {
+        this.withCredentials = !!init?.withCredentials;
+    }
+
+    public addEventListener(type: string, listener: (event: any) => void) {
+        const listeners = this.listeners_.get(type) ?? new Set();
+        listeners.add(listener);
+        this.listeners_.set(type, listeners);
+    }
+
+    public removeEventListener(type: string, listener: (event: any) => void) {
+        this.listeners_.get(type)?.delete(listener);
+    }
+
+    /**
+     * Event names with at least one listener.
+     */
+    public get events(): string[] {
+        return Array.from(this.listeners_).filter(([, set]) => set.size > 0).map(([type]) => type);
+    }
+
+    public close() {
+        this.closed = true;
+    }
+
+    /** Server side: accepts the connection. */
+    public accept() {
+        this.onopen?.({});
+    }
+
+    /** Server side: pushes an event, unnamed events go to `onmessage`. */
+    public push(data: unknown, event?: string) {
+        const message = { data: typeof data === "string" ? data : JSON.stringify(data) };
+
+        if (event) this.listeners_.get(event)?.forEach(listener => listener(message));
+        else this.onmessage?.(message);
+    }
+
+    /** Server side: fails the connection. */
+    public drop() {
+        this.onerror?.({});
+    }
+}
@@ -0,0 +1,243 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    realtime.test.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import { RealtimeClient } from "../src/realtime.js";
+import { MockEventSource, MockServer, MockWebSocket } from "./mock-server.js";
+
+let server: MockServer;
+let restore: () => void;
+
+beforeEach(() => {
+    server = new MockServer();
+    restore = server.install();
+    mock.timers.enable({ apis: ["setTimeout"] });
+});
+
+afterEach(() => {
+    mock.timers.reset();
+    restore();
+});
+
+const noJitter = { baseDelay: 100, maxDelay: 250, jitter: false };
+
+describe("RealtimeClient over WebSocket", () => {
+    it("connects on the first subscription and sends the subscribe frame once open", () => {
+        const client = new RealtimeClient("wss://live.test", { reconnect: noJitter });
+        assert.equal(client.status, "idle");
+
+        client.subscribe("prices", () => {});
+        const socket = server.latest as MockWebSocket;
+
+        assert.equal(client.transport, "websocket");
+        assert.equal(client.status, "connecting");
+        assert.deepEqual(socket.frames, []);
+
+        socket.accept();
+        assert.equal(client.status, "open");
+        assert.deepEqual(socket.frames, [{ type: "subscribe", channel: "prices" }]);
+    });
+
+    it("routes channel messages and decodes JSON with a raw fallback", () => {
+        const client = new RealtimeClient("wss://live.test");
+        const prices: unknown[] = [];
+        const orders: unknown[] = [];
+        const all: unknown[] = [];
+
+        client.subscribe("prices", data => prices.push(data));
+        client.subscribe("orders", data => orders.push(data));
+        client.onMessage(message => all.push(message));
+
+        const socket = server.latest as MockWebSocket;
+        socket.accept();
+        socket.push({ channel: "prices", data: { btc: 1 } });
+        socket.push({ channel: "orders", data: 42 });
+        socket.push("not json");
+
+        assert.deepEqual(prices, [{ btc: 1 }]);
+        assert.deepEqual(orders, [42]);
+        assert.deepEqual(all, [{ channel: "prices", data: { btc: 1 } }, { channel: "orders", data: 42 }, "not json"]);
+    });
+
+    it("reconnects with exponential backoff capped at maxDelay", () => {
+        const client = new RealtimeClient("wss://live.test", { reconnect: noJitter });
+        const statuses: string[] = [];
+        client.onStatus(status => statuses.push(status));
+        client.subscribe("prices", () => {});
+
+        (server.latest as MockWebSocket).drop();
+        assert.equal(client.status, "reconnecting");
+
+        mock.timers.tick(99);
+        assert.equal(server.sockets.length, 1);
+        mock.timers.tick(1);
+        assert.equal(server.sockets.length, 2);
+
+        (server.latest as MockWebSocket).drop();
+        mock.timers.tick(199);
+        assert.equal(server.sockets.length, 2);
+        mock.timers.tick(1);
+        assert.equal(server.sockets.length, 3);
+
+        (server.latest as MockWebSocket).drop();
+        mock.timers.tick(250);
+        assert.equal(server.sockets.length, 4);
+
+        assert.deepEqual(statuses, ["connecting", "reconnecting"]);
+    });
+
+    it("resubscribes after reconnecting and resets the backoff", () => {
+        const client = new RealtimeClient("wss://live.test", { reconnect: noJitter });
+        client.subscribe("prices", () => {});
+        client.subscribe("orders", () => {});
+
+        (server.latest as MockWebSocket).accept();
+        (server.latest as MockWebSocket).drop();
+        mock.timers.tick(100);
+
+        const socket = server.latest as MockWebSocket;
+        socket.accept();
+
+        assert.equal(client.status, "open");
+        assert.deepEqual(socket.frames, [
+            { type: "subscribe", channel: "prices" },
+            { type: "subscribe", channel: "orders" }
+        ]);
+
+        socket.drop();
+        mock.timers.tick(100);
+        assert.equal(server.sockets.length, 3);
+    });
+
+    it("gives up after the policy's attempts", () => {
+        const client = new RealtimeClient("wss://live.test", { reconnect: { ...noJitter, attempts: 1 } });
+        client.subscribe("prices", () => {});
+
+        (server.latest as MockWebSocket).drop();
+        mock.timers.tick(100);
+        (server.latest as MockWebSocket).drop();
+
+        assert.equal(client.status, "closed");
+        mock.timers.tick(1000);
+        assert.equal(server.sockets.length, 2);
+    });
+
+    it("stays closed after a drop when reconnect is disabled", () => {
+        const client = new RealtimeClient("wss://live.test", { reconnect: false });
+        client.subscribe("prices", () => {});
+
+        (server.latest as MockWebSocket).drop();
+        mock.timers.tick(60000);
+
+        assert.equal(client.status, "closed");
+        assert.equal(server.sockets.length, 1);
+    });
+
+    it("unsubscribes and closes once the last listener leaves", () => {
+        const client = new RealtimeClient("wss://live.test");
+        const offPrices = client.subscribe("prices", () => {});
+        const offOrders = client.subscribe("orders", () => {});
+
+        const socket = server.latest as MockWebSocket;
+        socket.accept();
+
+        offPrices();
+        assert.equal(client.status, "open");
+        assert.deepEqual(socket.frames.at(-1), { type: "unsubscribe", channel: "prices" });
+
+        offOrders();
+        assert.equal(client.status, "closed");
+        assert.equal(socket.readyState, MockWebSocket.CLOSED);
+    });
+
+    it("stays open while a message listener remains", () => {
+        const client = new RealtimeClient("wss://live.test");
+        const offMessages = client.onMessage(() => {});
+        const off = client.subscribe("prices", () => {});
+        (server.latest as MockWebSocket).accept();
+
+        off();
+        assert.equal(client.status, "open");
+
+        offMessages();
+        assert.equal(client.status, "closed");
+    });
+
+    it("cancels a pending reconnect on close()", () => {
+        const client = new RealtimeClient("wss://live.test", { reconnect: noJitter });
+        client.subscribe("prices", () => {});
+
+        (server.latest as MockWebSocket).drop();
+        client.close();
+        mock.timers.tick(1000);
+
+        assert.equal(client.status, "closed");
+        assert.equal(server.sockets.length, 1);
+    });
+});
+
+describe("RealtimeClient over SSE", () => {
+    it("routes named events and unnamed events carrying a channel", () => {
+        const client = new RealtimeClient("https://live.test/events", { withCredentials: true });
+        const prices: unknown[] = [];
+
+        client.subscribe("prices", data => prices.push(data));
+
+        const source = server.latest as MockEventSource;
+        assert.equal(client.transport, "sse");
+        assert.equal(source.withCredentials, true);
+        assert.deepEqual(source.events, ["prices"]);
+
+        source.accept();
+        source.push({ btc: 1 }, "prices");
+        source.push({ channel: "prices", data: { btc: 2 } });
+        source.push({ btc: 3 }, "orders");
+
+        assert.equal(client.status, "open");
+        assert.deepEqual(prices, [{ btc: 1 }, { btc: 2 }]);
+    });
+
+    it("replaces the browser retry with backoff and re-attaches channels", () => {
+        const client = new RealtimeClient("https://live.test/events", { reconnect: noJitter });
+        const prices: unknown[] = [];
+        client.subscribe("prices", data => prices.push(data));
+
+        const first = server.latest as MockEventSource;
+        first.accept();
+        first.drop();
+
+        assert.equal(first.closed, true);
+        assert.equal(client.status, "reconnecting");
+
+        mock.timers.tick(100);
+        const second = server.latest as MockEventSource;
+        assert.notEqual(second, first);
+        assert.deepEqual(second.events, ["prices"]);
+
+        second.accept();
+        second.push({ btc: 4 }, "prices");
+        assert.deepEqual(prices, [{ btc: 4 }]);
+    });
+
+    it("detaches a channel's listener when it is unsubscribed", () => {
+        const client = new RealtimeClient("https://live.test/events");
+        client.onMessage(() => {});
+        const off = client.subscribe("prices", () => {});
+
+        const source = server.latest as MockEventSource;
+        off();
+
+        assert.deepEqual(source.events, []);
+        assert.equal(source.closed, false);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Copyright (c) 2026 Josh Bassett
+ *
+ * Filename:    reconciler.test.ts
+ * Author:      Josh Bassett
+ * Date:        19/10/2026
+ * Version:     1.0
+ *
+ * Licence:     Apache 2.0
+ */
+
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Window } from "happy-dom";
+
+import { Reconciler } from "../src/reconciler.js";
+
+const DOM_GLOBALS = ["window", "document", "Node", "Element", "HTMLInputElement", "HTMLOptionElement"] as const;
+
+let window: Window;
+let root: HTMLElement;
+let previous: Record<string, unknown>;
+
+before(() => {
+    window = new Window();
+    const globals = globalThis as any;
+
+    previous = Object.fromEntries(DOM_GLOBALS.map(name => [name, globals[name]]));
+    for (const name of DOM_GLOBALS) globals[name] = name === "window" ? window : (window as any)[name];
+});
+
+after(async () => {
+    Object.assign(globalThis, previous);
+    await window.happyDOM.close();
+});
+
+beforeEach(() => {
+    document.body.innerHTML = "";
+    root = document.createElement("div");
+    document.body.appendChild(root);
+});
+
+/**
+ * Patches `root` and records every node the reconciler moved with `insertBefore`.
+ */
+function patchTracked(html: string): Node[] {
+    const moved: Node[] = [];
+    const insertBefore = root.insertBefore;
+
+    root.insertBefore = function <T extends Node>(node: T, child: Node | null): T {
+        moved.push(node);
+        return insertBefore.call(this, node, child) as T;
+    };
+
+    try {
+        new Reconciler().patch(root, html);
+    } finally {
+        root.insertBefore = insertBefore;
+    }
+
+    return moved;
+}
+
+describe("Reconciler", () => {
+    it("keeps a focused input in place when a message before it is removed", () => {
+        root.innerHTML = ` <p>Required</p> <input name="email">`;
+        const input = root.querySelector("input")!;
+        input.focus();
+        input.value = "typed";
+
+        const moved = patchTracked(` <input name="email">`);
+
+        assert.equal(root.querySelector("input"), input);
+        assert.equal(document.activeElement, input);
+        assert.equal(input.value, "typed");
+        assert.equal(root.querySelector("p"), null);
+        assert.equal(root.childNodes.length, 2);
+        assert.deepEqual(moved, []);
+    });
+
+    it("keeps later siblings when a keyed element is removed", () => {
+        root.innerHTML = `<li key="a">A</li><li key="b">B</li><input>`;
+        const [, b] = Array.from(root.querySelectorAll("li"));
+        const input = root.querySelector("input")!;
+
+        const moved = patchTracked(`<li key="b">B</li><input>`);
+
+        assert.equal(root.children[0], b);
+        assert.equal(root.children[1], input);
+        assert.equal(root.children.length, 2);
+        assert.deepEqual(moved, []);
+    });
+
+    it("moves keyed elements on a reorder", () => {
+        root.innerHTML = `<li key="a">A</li><li key="b">B</li>`;
+        const [a, b] = Array.from(root.querySelectorAll("li"));
+
+        patchTracked(`<li key="b">B!</li><li key="a">A</li>`);
+
+        assert.deepEqual(Array.from(root.children), [b, a]);
+        assert.equal(b.textContent, "B!");
+    });
+
+    it("inserts new nodes and updates text in place", () => {
+        root.innerHTML = `<span>one</span>`;
+        const span = root.querySelector("span")!;
+
+        patchTracked(`<span>two</span><b>new</b>`);
+
+        assert.equal(root.children[0], span);
+        assert.equal(span.textContent, "two");
+        assert.equal(root.innerHTML, `<span>two</span><b>new</b>`);
+    });
+});